@@ -8,6 +8,7 @@ import { GuidedAnalysisWizard, type WizardSubmitData } from './components/Guided
 import { Modal } from './components/Modal';
 import { GoogleSearchConsoleConnect } from './components/GoogleSearchConsoleConnect';
 import { AiConfiguration } from './components/AiConfiguration';
+import { FetchTransportSettings } from './components/FetchTransportSettings';
 import { ActionPlanDashboard } from './components/ActionPlanDashboard';
 import { AnalysisPipelineView } from './components/AnalysisPipelineView';
 import { ProgressiveResultsPanel } from './components/ProgressiveResultsPanel';
@@ -16,21 +17,43 @@ import {
   generateSeoAnalysis,
   generateExecutiveSummary,
 } from './services/aiService';
-import { rankUrls } from './utils/seoScoring';
 import { crawlSitemap } from './services/crawlingService';
+import { discoverSitemaps, normalizeSiteOrigin } from './services/sitemapDiscoveryService';
+import { validateSitemaps } from './services/sitemapValidationService';
+import { checkUrlStatuses, applyStatusFindings } from './services/statusCheckService';
+import { fetchPageSnapshot, fetchPageSnapshots } from './services/pageFetcherService';
+import { buildLinkGraph } from './services/linkGraphService';
+import { detectContentSimilarity } from './services/contentSimilarityService';
+import { validateStructuredData, applyStructuredDataFindings } from './services/structuredDataService';
+import { hreflangTargetsToCheck, validateHreflang } from './services/hreflangService';
+import { checkRedirectMap } from './services/redirectMapService';
+import { canonicalTargetsToCheck, classifyIndexability, applyIndexabilityFindings, toCanonicalActions } from './services/indexabilityService';
 import { createActionPlan } from './services/actionPlanService';
+import { fetchSearchAnalytics, aggregateByPage, joinPageMetrics } from './services/gscService';
+import { gscSession, describeGscUnavailable, findGscProperty } from './services/gscSessionManager';
+import { fetchPeriodComparison, detectContentDecay } from './services/decayService';
+import { detectCannibalization } from './services/cannibalizationService';
+import { fitCtrCurve, findCtrOpportunities, toSnippetRewriteActions } from './services/ctrOpportunityService';
+import { buildStrikingDistanceReport, applyStrikingDistanceTasks } from './services/strikingDistanceService';
 import { cacheService } from './services/cacheService';
+import { historyRepository } from './services/historyRepository';
+import { isAuthAvailable, sendMagicLink, signOut, onAuthChange, type AuthUser } from './services/authService';
+import { pullAiPreferences, pushAiPreferences, type SyncedAiPreferences } from './services/aiConfigSync';
 import type {
   HistoricalAnalysis,
   CrawlProgress,
   GscSite,
   GscTokenResponse,
+  GscSessionState,
   AiConfig,
+  SearchPerformanceMetrics,
+  PageAction,
+  CannibalizationReport,
+  StrikingDistanceReport,
 } from './types';
 import type { PipelineStage, ActivityLogEntry, PartialResults } from './types/pipeline';
 import { PIPELINE_STAGE_DEFINITIONS } from './types/pipeline';
 
-const HISTORY_STORAGE_KEY = 'orchestrator-ai-history';
 const AI_CONFIG_STORAGE_KEY = 'orchestrator-ai-config';
 const MAX_URLS_FOR_ANALYSIS = 100;
 
@@ -40,6 +63,9 @@ type LoadingPhase = 'crawling' | 'analyzing';
 const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [analysisHistory, setAnalysisHistory] = useState<HistoricalAnalysis[]>([]);
+  const [historyPage, setHistoryPage] = useState(0);
+  const [historyHasMore, setHistoryHasMore] = useState(false);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
   const [selectedAnalysisId, setSelectedAnalysisId] = useState<string | null>(null);
   const [appState, setAppState] = useState<AppState>('idle');
   const [loadingPhase, setLoadingPhase] = useState<LoadingPhase>('crawling');
@@ -53,15 +79,23 @@ const App: React.FC = () => {
   const [partialResults, setPartialResults] = useState<PartialResults>({});
   const [analysisStartTime, setAnalysisStartTime] = useState<number>(Date.now());
 
-  const [gscToken, setGscToken] = useState<GscTokenResponse | null>(null);
-  const [gscSites, setGscSites] = useState<GscSite[]>([]);
+  const [gscState, setGscState] = useState<GscSessionState>(() => gscSession.getState());
   const [isGscModalOpen, setIsGscModalOpen] = useState(false);
+  const [isNetworkModalOpen, setIsNetworkModalOpen] = useState(false);
   const [aiConfig, setAiConfig] = useState<AiConfig | null>(null);
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [syncedAiPreferences, setSyncedAiPreferences] = useState<SyncedAiPreferences | null>(null);
   const [isCancelling, setIsCancelling] = useState(false);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const aiConfigRef = useRef<AiConfig | null>(null);
+  const authUserIdRef = useRef<string | null | undefined>(undefined);
 
-  const isGscConnected = useMemo(() => !!gscToken, [gscToken]);
+  const isGscConnected = gscState.status === 'connected';
+  const gscToken = gscState.status === 'connected' ? gscState.token : null;
+  const gscSites = useMemo(() => (gscState.status === 'connected' ? gscState.sites : []), [gscState]);
+
+  useEffect(() => gscSession.subscribe(setGscState), []);
 
   const analysisToDisplay = useMemo(() => {
     if (!selectedAnalysisId) return null;
@@ -91,13 +125,42 @@ const App: React.FC = () => {
   }, []);
 
   const updateAnalysisInHistory = useCallback((id: string, updatedAnalysis: Partial<HistoricalAnalysis>) => {
-    setAnalysisHistory(prev => {
-      const updated = prev.map(h => h.id === id ? { ...h, ...updatedAnalysis } : h);
-      try { localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updated)); } catch (e) { console.warn('Failed to persist history:', e); }
-      return updated;
+    setAnalysisHistory(prev => prev.map(h => h.id === id ? { ...h, ...updatedAnalysis } : h));
+    historyRepository.update(id, updatedAnalysis).catch(e => {
+      // The change stays on screen, but will be gone after a reload
+      console.warn('Failed to persist history update:', e);
     });
   }, []);
 
+  const saveAnalysisToHistory = useCallback(async (analysis: Omit<HistoricalAnalysis, 'id'>): Promise<HistoricalAnalysis> => {
+    try {
+      const saved = await historyRepository.save(analysis);
+      setAnalysisHistory(prev => [saved, ...prev]);
+      return saved;
+    } catch (e) {
+      // Keep the result on screen for this session even if it could not be persisted
+      console.warn('Failed to persist history:', e);
+      const unsaved: HistoricalAnalysis = { ...analysis, id: new Date().toISOString() };
+      setAnalysisHistory(prev => [unsaved, ...prev]);
+      return unsaved;
+    }
+  }, []);
+
+  const handleLoadMoreHistory = useCallback(async () => {
+    setIsHistoryLoading(true);
+    try {
+      const nextPage = historyPage + 1;
+      const { items, hasMore } = await historyRepository.list(nextPage);
+      setAnalysisHistory(prev => [...prev, ...items.filter(item => !prev.some(h => h.id === item.id))]);
+      setHistoryPage(nextPage);
+      setHistoryHasMore(hasMore);
+    } catch (e) {
+      console.warn('Failed to load more history:', e);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, [historyPage]);
+
   const handleToggleTaskComplete = useCallback((actionItemId: string) => {
     if (!analysisToDisplay || !analysisToDisplay.actionPlan) return;
     const newActionPlan = analysisToDisplay.actionPlan.map(day => ({
@@ -109,30 +172,69 @@ const App: React.FC = () => {
     updateAnalysisInHistory(analysisToDisplay.id, { actionPlan: newActionPlan });
   }, [analysisToDisplay, updateAnalysisInHistory]);
 
+  const loadFirstHistoryPage = useCallback(async (selectLatest: boolean) => {
+    setIsHistoryLoading(true);
+    try {
+      await historyRepository.migrateLocalHistory();
+      const { items, hasMore } = await historyRepository.list(0);
+      setAnalysisHistory(items);
+      setHistoryPage(0);
+      setHistoryHasMore(hasMore);
+      if (selectLatest && items.length > 0) {
+        setSelectedAnalysisId(items[0].id);
+        setAppState('results');
+      }
+    } catch (e) {
+      console.error('Failed to load analysis history', e);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, []);
+
   useEffect(() => {
+    let storedConfig: string | null = null;
     try {
-      const storedConfig = localStorage.getItem(AI_CONFIG_STORAGE_KEY);
+      storedConfig = localStorage.getItem(AI_CONFIG_STORAGE_KEY);
       if (storedConfig) {
         setAiConfig(JSON.parse(storedConfig));
       } else {
         setAppState('configure_ai');
       }
-      const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-      if (storedHistory) {
-        const history = JSON.parse(storedHistory) as HistoricalAnalysis[];
-        setAnalysisHistory(history);
-        if (history.length > 0 && storedConfig) {
-          setSelectedAnalysisId(history[0].id);
-          setAppState('results');
-        }
-      }
     } catch (e) {
       console.error('Failed to parse from localStorage', e);
-      localStorage.removeItem(HISTORY_STORAGE_KEY);
       localStorage.removeItem(AI_CONFIG_STORAGE_KEY);
+      storedConfig = null;
       setAppState('configure_ai');
     }
-  }, []);
+
+    loadFirstHistoryPage(!!storedConfig);
+  }, [loadFirstHistoryPage]);
+
+  useEffect(() => {
+    aiConfigRef.current = aiConfig;
+  }, [aiConfig]);
+
+  useEffect(() => {
+    return onAuthChange(async (user) => {
+      const previousUserId = authUserIdRef.current;
+      authUserIdRef.current = user?.id ?? null;
+      setAuthUser(user);
+
+      if (!user) {
+        setSyncedAiPreferences(null);
+      } else if (aiConfigRef.current) {
+        // This device already has a working key, so it becomes the synced choice
+        pushAiPreferences(aiConfigRef.current);
+      } else {
+        setSyncedAiPreferences(await pullAiPreferences());
+      }
+
+      // The mount effect already loaded history for the initial session
+      if (previousUserId !== undefined && previousUserId !== (user?.id ?? null)) {
+        loadFirstHistoryPage(false);
+      }
+    });
+  }, [loadFirstHistoryPage]);
 
   const handleNewAnalysis = useCallback(() => {
     setSelectedAnalysisId(null);
@@ -144,8 +246,17 @@ const App: React.FC = () => {
   const handleAiConfigChange = useCallback((config: AiConfig) => {
     setAiConfig(config);
     try { localStorage.setItem(AI_CONFIG_STORAGE_KEY, JSON.stringify(config)); } catch (e) { console.warn('Failed to persist config:', e); }
+    if (authUser) {
+      pushAiPreferences(config);
+    }
     setAppState('idle');
-  }, []);
+  }, [authUser]);
+
+  const handleSignOut = useCallback(async () => {
+    await signOut();
+    setSelectedAnalysisId(null);
+    setAppState(aiConfig ? 'idle' : 'configure_ai');
+  }, [aiConfig]);
 
   const handleAiSettingsChange = useCallback(() => {
     setAiConfig(null);
@@ -168,8 +279,8 @@ const App: React.FC = () => {
   }, [addLog, resetPipeline]);
 
   const handleSubmit = useCallback(async (data: WizardSubmitData) => {
-    if (!data.sitemapUrl) {
-      setError('Please enter your sitemap.xml URL.');
+    if (!data.sitemapUrl && !normalizeSiteOrigin(data.url)) {
+      setError('Please enter your website or sitemap.xml URL.');
       setAppState('error');
       return;
     }
@@ -179,13 +290,14 @@ const App: React.FC = () => {
       return;
     }
 
-    let initialSitemapUrl: URL;
-    try {
-      initialSitemapUrl = new URL(data.sitemapUrl);
-    } catch (_) {
-      setError('Please enter a valid sitemap URL (e.g., https://example.com/sitemap.xml).');
-      setAppState('error');
-      return;
+    if (data.sitemapUrl) {
+      try {
+        new URL(data.sitemapUrl);
+      } catch (_) {
+        setError('Please enter a valid sitemap URL (e.g., https://example.com/sitemap.xml).');
+        setAppState('error');
+        return;
+      }
     }
 
     const competitorUrls = data.competitorSitemaps.split('\n').map(u => u.trim()).filter(Boolean);
@@ -199,6 +311,10 @@ const App: React.FC = () => {
     resetPipeline();
     setAnalysisStartTime(Date.now());
 
+    // GSC only accepts its own property names, so the typed site is matched against them once up front
+    const gscAtStart = gscSession.getState();
+    const gscProperty = gscAtStart.status === 'connected' ? findGscProperty(data.url, gscAtStart.sites) : null;
+
     try {
       addLog('Starting sitemap discovery...', 'info', 'crawl');
       updateStage('crawl', {
@@ -207,7 +323,23 @@ const App: React.FC = () => {
         currentTask: 'Initializing parallel crawler...'
       });
 
-      const allPageUrls = await crawlSitemap(initialSitemapUrl.toString(), (progress: CrawlProgress) => {
+      let sitemapUrl = data.sitemapUrl;
+      if (!sitemapUrl) {
+        updateStage('crawl', { currentTask: 'Locating sitemap...' });
+        const candidates = await discoverSitemaps(data.url, {
+          accessToken: gscProperty ? await gscSession.getAccessToken() : null,
+          gscSiteUrl: gscProperty ?? undefined,
+          signal: abortControllerRef.current.signal,
+        });
+        if (candidates.length === 0) {
+          throw new Error(`No sitemap found for ${data.url} in Search Console, robots.txt or the usual locations. Please enter your sitemap URL.`);
+        }
+        sitemapUrl = candidates[0].url;
+        addLog(`Using sitemap ${sitemapUrl} (from ${candidates[0].sources.join(', ')})`, 'info', 'crawl');
+      }
+
+      // Crawling, parsing, sampling and ranking all happen in a worker
+      const { crawl: sitemapCrawl, rankedSample } = await crawlSitemap(sitemapUrl, (progress: CrawlProgress) => {
         requestAnimationFrame(() => {
           setCrawlProgress(progress);
           const progressPercent = progress.total > 0 ? (progress.count / progress.total) * 100 : 0;
@@ -218,15 +350,24 @@ const App: React.FC = () => {
             currentTask: `Processing ${progress.currentSitemap || 'sitemap'}...`
           });
         });
-      });
+      }, data.crawlSettings, abortControllerRef.current.signal);
 
       updateStage('crawl', { status: 'complete', progress: 100, endTime: Date.now() });
-      addLog(`Discovered ${allPageUrls.size} URLs`, 'success', 'crawl');
-      setPartialResults(prev => ({ ...prev, urlsDiscovered: allPageUrls.size }));
+      const sitemapEntries = sitemapCrawl.entries;
+      addLog(`Discovered ${sitemapEntries.length} URLs`, 'success', 'crawl');
+      setPartialResults(prev => ({ ...prev, urlsDiscovered: sitemapEntries.length }));
+
+      // Validate the sitemaps even when the crawl found nothing: that's when the report matters most
+      const sitemapValidation = validateSitemaps(sitemapUrl, data.url, sitemapCrawl);
+      const sitemapErrors = sitemapValidation.issues.filter(i => i.severity === 'error').length;
+      if (sitemapValidation.issues.length > 0) {
+        addLog(`Sitemap validation found ${sitemapValidation.issues.length} issues (${sitemapErrors} errors)`, sitemapErrors > 0 ? 'warning' : 'info', 'crawl');
+      }
 
-      const urlsFromSitemap = Array.from(allPageUrls);
+      const urlsFromSitemap = sitemapEntries.map(entry => entry.url);
       if (urlsFromSitemap.length === 0) {
-        throw new Error('Crawl complete, but no URLs were found. Your sitemap might be empty or in a format that could not be parsed.');
+        const firstError = sitemapValidation.issues.find(i => i.severity === 'error');
+        throw new Error(`Crawl complete, but no URLs were found. Your sitemap might be empty or in a format that could not be parsed.${firstError ? ` First problem: ${firstError.message}${firstError.sitemap ? ` (${firstError.sitemap})` : ''}` : ''}`);
       }
 
       setLoadingPhase('analyzing');
@@ -237,21 +378,26 @@ const App: React.FC = () => {
 
       if (cachedAnalysis) {
         addLog('Cache hit! Using cached analysis...', 'success');
+        // The sitemap report comes from this crawl, not the cached one
+        const cachedSitewide = { ...cachedAnalysis.sitewide, sitemapValidation };
 
         ['rank', 'competitor', 'technical', 'content'].forEach(stageId => {
           updateStage(stageId, { status: 'complete', progress: 100, endTime: Date.now() });
         });
+        updateStage('status', { status: 'skipped' });
+        updateStage('pages', { status: 'skipped' });
+        updateStage('gsc', { status: 'skipped' });
 
         setPartialResults({
           urlsDiscovered: urlsFromSitemap.length,
-          sitewideAnalysis: cachedAnalysis.sitewide,
+          sitewideAnalysis: cachedSitewide,
           seoAnalysis: cachedAnalysis.seo,
         });
 
         addLog('Generating fresh action plan from cache...', 'ai', 'actionplan');
         updateStage('actionplan', { status: 'running', startTime: Date.now(), currentTask: 'Creating implementation roadmap...' });
 
-        const actionPlan = await createActionPlan(aiConfig, cachedAnalysis.sitewide, cachedAnalysis.seo, (msg) => {
+        const actionPlan = await createActionPlan(aiConfig, cachedSitewide, cachedAnalysis.seo, (msg) => {
           updateStage('actionplan', { currentTask: msg });
           addLog(msg, 'ai', 'actionplan');
         });
@@ -263,18 +409,19 @@ const App: React.FC = () => {
         addLog('Synthesizing executive summary...', 'ai', 'summary');
         updateStage('summary', { status: 'running', startTime: Date.now(), currentTask: 'Creating 80/20 analysis...' });
 
-        const executiveSummary = await generateExecutiveSummary(aiConfig, cachedAnalysis.sitewide, cachedAnalysis.seo);
+        const generatedSummary = await generateExecutiveSummary(aiConfig, cachedSitewide, cachedAnalysis.seo);
+        updateStage('summary', { currentTask: 'Checking redirect targets...' });
+        const executiveSummary = { ...generatedSummary, redirectMap: await checkRedirectMap(generatedSummary.redirects, abortControllerRef.current.signal) };
 
         updateStage('summary', { status: 'complete', progress: 100, endTime: Date.now() });
         addLog('Executive summary complete', 'success', 'summary');
         setPartialResults(prev => ({ ...prev, executiveSummary }));
 
-        const newAnalysis: HistoricalAnalysis = {
-          id: new Date().toISOString(),
+        const newAnalysis: Omit<HistoricalAnalysis, 'id'> = {
           date: new Date().toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' }),
           sitemapUrl: data.url,
           competitorSitemaps: competitorUrls,
-          sitewideAnalysis: cachedAnalysis.sitewide,
+          sitewideAnalysis: cachedSitewide,
           analysis: cachedAnalysis.seo,
           sources: [],
           analysisType: data.analysisType,
@@ -283,10 +430,8 @@ const App: React.FC = () => {
           executiveSummary: executiveSummary,
         };
 
-        const updatedHistory = [newAnalysis, ...analysisHistory].slice(0, 10);
-        setAnalysisHistory(updatedHistory);
-        try { localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory)); } catch (e) { console.warn('Failed to persist history:', e); }
-        setSelectedAnalysisId(newAnalysis.id);
+        const savedAnalysis = await saveAnalysisToHistory(newAnalysis);
+        setSelectedAnalysisId(savedAnalysis.id);
         setAppState('results');
         return;
       }
@@ -296,23 +441,155 @@ const App: React.FC = () => {
       addLog('Prioritizing URLs by SEO value...', 'info', 'rank');
       updateStage('rank', { status: 'running', startTime: Date.now(), currentTask: 'Scoring URL importance...' });
 
-      const rankedUrls = rankUrls(urlsFromSitemap);
-      const inputUrls = rankedUrls.slice(0, MAX_URLS_FOR_ANALYSIS);
+      if (rankedSample.length < sitemapEntries.length) {
+        addLog(`Sampled ${rankedSample.length} of ${sitemapEntries.length} URLs across all sitemaps and sections`, 'info', 'rank');
+      }
+      const rankedEntries = rankedSample;
+      const inputEntries = rankedEntries.slice(0, MAX_URLS_FOR_ANALYSIS);
+      const inputUrls = inputEntries.map(entry => entry.url);
 
       updateStage('rank', { status: 'complete', progress: 100, endTime: Date.now() });
-      addLog(`Ranked ${rankedUrls.length} URLs, analyzing top ${inputUrls.length}`, 'success', 'rank');
+      addLog(`Ranked ${rankedEntries.length} URLs, analyzing top ${inputUrls.length}`, 'success', 'rank');
       setPartialResults(prev => ({ ...prev, urlsAnalyzed: inputUrls.length }));
 
+      addLog(`Checking HTTP status of ${inputUrls.length} URLs...`, 'info', 'status');
+      updateStage('status', { status: 'running', startTime: Date.now(), totalItems: inputUrls.length, currentTask: 'Following redirects...' });
+
+      const statusResults = await checkUrlStatuses(inputUrls, (done, total) => {
+        updateStage('status', { progress: (done / total) * 100, itemsProcessed: done });
+      }, abortControllerRef.current.signal);
+      const nonOkCount = statusResults.filter(r => r.status === null || r.status >= 300 || r.hops > 0).length;
+
+      const hiddenCount = inputUrls.length - statusResults.length;
+
+      if (statusResults.length === 0 && hiddenCount > 0) {
+        updateStage('status', { status: 'skipped' });
+        addLog('The site sends no CORS headers, so direct requests cannot see its status codes. Skipping status checks; pick a proxy in Network Settings to run them.', 'warning', 'status');
+      } else {
+        updateStage('status', { status: 'complete', progress: 100, endTime: Date.now() });
+        addLog(`${nonOkCount} of ${statusResults.length} URLs redirect, fail or could not be reached`, nonOkCount > 0 ? 'warning' : 'success', 'status');
+        if (hiddenCount > 0) {
+          addLog(`${hiddenCount} URLs could not be checked: their responses are hidden from direct requests (no CORS headers)`, 'warning', 'status');
+        }
+      }
+
+      addLog(`Fetching ${inputUrls.length} pages to extract on-page signals...`, 'info', 'pages');
+      updateStage('pages', { status: 'running', startTime: Date.now(), totalItems: inputUrls.length, currentTask: 'Downloading page HTML...' });
+
+      const lastmodByUrl = new Map(inputEntries.map(entry => [entry.url, entry.lastmod]));
+      const pageSnapshots = (await fetchPageSnapshots(inputUrls, (done, total) => {
+        updateStage('pages', { progress: (done / total) * 100, itemsProcessed: done });
+      }, abortControllerRef.current.signal))
+        .map(snapshot => ({ ...snapshot, sitemapLastmod: lastmodByUrl.get(snapshot.url) }));
+      const fetchedCount = pageSnapshots.filter(p => p.status !== null).length;
+
+      updateStage('pages', { status: 'complete', progress: 100, endTime: Date.now() });
+      addLog(`Extracted on-page signals from ${fetchedCount} of ${inputUrls.length} pages`, fetchedCount < inputUrls.length ? 'warning' : 'success', 'pages');
+
+      const linkGraph = buildLinkGraph(pageSnapshots);
+      const unlinkedCount = linkGraph.nodes.filter(n => n.type === 'orphan').length;
+      addLog(`Mapped ${linkGraph.linkCount} internal links between crawled pages (${unlinkedCount} not linked from other sampled pages)`, 'success', 'pages');
+
+      const similarityActions = detectContentSimilarity(pageSnapshots);
+      const mergeCount = similarityActions.filter(a => a.rewriteDetails?.action === 'merge').length;
+      const pruneCount = similarityActions.length - mergeCount;
+      addLog(`Found ${mergeCount} near-duplicate and ${pruneCount} thin pages`, similarityActions.length > 0 ? 'warning' : 'success', 'pages');
+
+      const structuredData = validateStructuredData(pageSnapshots, data.analysisType);
+      const schemaErrorPages = structuredData.pages.filter(p => p.issues.some(i => i.severity === 'error')).length;
+      const schemaOpportunities = structuredData.pages.reduce((sum, p) => sum + p.opportunities.length, 0);
+      addLog(`Structured data on ${structuredData.pagesWithMarkup} of ${structuredData.pagesChecked} pages: ${schemaErrorPages} with errors, ${schemaOpportunities} missing-markup opportunities`, schemaErrorPages > 0 ? 'warning' : 'success', 'pages');
+
+      // Alternates and canonicals can point outside the sample; check those targets too
+      const extraTargets = [...new Set([
+        ...hreflangTargetsToCheck(pageSnapshots, sitemapEntries, inputUrls),
+        ...canonicalTargetsToCheck(pageSnapshots, inputUrls),
+      ])];
+      const targetStatuses = extraTargets.length > 0 ? await checkUrlStatuses(extraTargets, undefined, abortControllerRef.current.signal) : [];
+      const knownStatuses = [...statusResults, ...targetStatuses];
+
+      const indexability = classifyIndexability(pageSnapshots, knownStatuses, urlsFromSitemap);
+      const canonicalActions = toCanonicalActions(indexability);
+      const conflictingCount = indexability.filter(r => r.indexability === 'conflicting').length;
+      const nonIndexableCount = indexability.filter(r => r.indexability === 'non_indexable').length;
+      addLog(`Indexability: ${indexability.length - conflictingCount - nonIndexableCount} indexable, ${nonIndexableCount} non-indexable, ${conflictingCount} with conflicting signals`, conflictingCount > 0 ? 'warning' : 'success', 'pages');
+
+      const hreflang = validateHreflang(sitemapEntries, pageSnapshots, knownStatuses);
+      if (hreflang) {
+        const hreflangErrors = hreflang.issues.filter(i => i.severity === 'error').length;
+        addLog(`Checked ${hreflang.clusters} hreflang clusters across ${hreflang.languages.length} languages: ${hreflang.issues.length} issues (${hreflangErrors} errors)`, hreflangErrors > 0 ? 'warning' : 'success', 'pages');
+      }
+
+      let pageMetrics: Record<string, SearchPerformanceMetrics> = {};
+      let gscActions: PageAction[] = [];
+      let keywordCannibalization: CannibalizationReport | undefined;
+      let strikingDistance: StrikingDistanceReport | undefined;
+      const gscAccessToken = await gscSession.getAccessToken();
+      if (gscAccessToken && gscProperty) {
+        gscSession.setProperty(gscProperty);
+        addLog(`Fetching Search Console performance for prioritized pages from ${gscProperty}...`, 'info', 'gsc');
+        updateStage('gsc', { status: 'running', startTime: Date.now(), currentTask: 'Querying Search Console...' });
+        try {
+          const [comparison, queryDataset] = await Promise.all([
+            fetchPeriodComparison(gscProperty, gscAccessToken),
+            fetchSearchAnalytics(gscProperty, gscAccessToken, { dimensions: ['page', 'query'] }),
+          ]);
+          pageMetrics = joinPageMetrics(inputUrls, aggregateByPage(comparison.current));
+          addLog(`Loaded Search Console metrics for ${Object.keys(pageMetrics).length} of ${inputUrls.length} pages`, 'success', 'gsc');
+
+          updateStage('gsc', { progress: 50, currentTask: 'Comparing periods for content decay...' });
+          const decayActions = detectContentDecay(comparison);
+          addLog(`Detected ${decayActions.length} decaying pages`, decayActions.length > 0 ? 'warning' : 'success', 'gsc');
+
+          updateStage('gsc', { progress: 60, currentTask: 'Modeling CTR by position...' });
+          const ctrCurve = fitCtrCurve(queryDataset);
+          const snippetActions = toSnippetRewriteActions(findCtrOpportunities(queryDataset, ctrCurve), ctrCurve);
+          addLog(`Found ${snippetActions.length} pages with underperforming snippets (${ctrCurve.source} CTR curve)`, snippetActions.length > 0 ? 'warning' : 'success', 'gsc');
+          gscActions = [...decayActions, ...snippetActions];
+
+          updateStage('gsc', { progress: 75, currentTask: 'Checking for keyword cannibalization...' });
+          keywordCannibalization = detectCannibalization(queryDataset);
+          addLog(`Found ${keywordCannibalization.issues.length} cannibalized queries across ${keywordCannibalization.queriesAnalyzed} analyzed`, keywordCannibalization.issues.length > 0 ? 'warning' : 'success', 'gsc');
+
+          updateStage('gsc', { progress: 85, currentTask: 'Checking striking-distance keywords on-page...' });
+          const snapshotsByUrl = new Map(pageSnapshots.filter(p => p.status !== null).map(p => [p.url, p]));
+          strikingDistance = await buildStrikingDistanceReport(queryDataset, {
+            // Reuse pages fetched above instead of downloading them again
+            fetchHeadings: async (url) => {
+              const snapshot = snapshotsByUrl.get(url) ?? await fetchPageSnapshot(url);
+              if (snapshot.status === null) throw new Error(snapshot.fetchError);
+              return { title: snapshot.title, h1: snapshot.headings.h1 };
+            },
+          });
+          addLog(`Found ${strikingDistance.entries.length} striking-distance queries (positions ${strikingDistance.minPosition}-${strikingDistance.maxPosition})`, 'success', 'gsc');
+          updateStage('gsc', { status: 'complete', progress: 100, endTime: Date.now() });
+        } catch (e) {
+          // GSC data enriches the analysis but must never block it
+          console.warn('Failed to fetch GSC performance:', e);
+          updateStage('gsc', { status: 'error', endTime: Date.now() });
+          addLog('Search Console data unavailable, continuing without it', 'warning', 'gsc');
+        }
+      } else if (gscAccessToken) {
+        updateStage('gsc', { status: 'skipped' });
+        addLog(`None of your Search Console properties covers ${data.url}. Add it in Search Console or pick a property from the list to load real performance data.`, 'warning', 'gsc');
+      } else {
+        const gscStatus = gscSession.getState();
+        const reason = gscStatus.status === 'unavailable' ? gscStatus.reason : 'not_connected';
+        updateStage('gsc', { status: 'skipped' });
+        addLog(`${describeGscUnavailable(reason)} Skipping real performance data.`, reason === 'not_connected' ? 'info' : 'warning', 'gsc');
+      }
+
       addLog('Starting parallel AI analysis engines...', 'ai');
 
       updateStage('competitor', { status: 'running', startTime: Date.now(), currentTask: 'Analyzing competitor sitemaps...' });
       updateStage('technical', { status: 'running', startTime: Date.now(), currentTask: 'Auditing technical health...' });
       updateStage('content', { status: 'running', startTime: Date.now(), currentTask: 'Evaluating content quality...' });
 
-      const [sitewideAnalysis, { analysis, sources }] = await Promise.all([
+      const [sitewideAudit, { analysis: pageAnalysis, sources }] = await Promise.all([
         generateSitewideAudit(
           aiConfig,
-          inputUrls,
+          pageSnapshots,
+          linkGraph,
           competitorUrls,
           data.analysisType,
           data.targetLocation,
@@ -328,17 +605,33 @@ const App: React.FC = () => {
         ),
         generateSeoAnalysis(
           aiConfig,
-          inputUrls,
+          pageSnapshots,
           data.analysisType,
           data.targetLocation,
           [],
           (msg) => {
             updateStage('content', { currentTask: msg });
             addLog(msg, 'ai', 'content');
-          }
+          },
+          pageMetrics
         )
       ]);
 
+      const sitewideAnalysis = {
+        ...sitewideAudit,
+        technicalHealth: applyStatusFindings(applyIndexabilityFindings(applyStructuredDataFindings(sitewideAudit.technicalHealth, structuredData), indexability), statusResults),
+        keywordCannibalization,
+        strikingDistance,
+        sitemapValidation,
+        structuredData,
+        hreflang,
+      };
+      const pageActions = [...pageAnalysis.pageActions, ...gscActions, ...similarityActions, ...canonicalActions];
+      const analysis = {
+        ...pageAnalysis,
+        pageActions: strikingDistance ? applyStrikingDistanceTasks(pageActions, strikingDistance) : pageActions,
+      };
+
       updateStage('competitor', { status: 'complete', progress: 100, endTime: Date.now() });
       updateStage('technical', { status: 'complete', progress: 100, endTime: Date.now() });
       updateStage('content', { status: 'complete', progress: 100, endTime: Date.now() });
@@ -377,7 +670,13 @@ const App: React.FC = () => {
         currentTask: 'Generating 80/20 analysis...'
       });
 
-      const executiveSummary = await generateExecutiveSummary(aiConfig, sitewideAnalysis, analysis);
+      const generatedSummary = await generateExecutiveSummary(aiConfig, sitewideAnalysis, analysis);
+      updateStage('summary', { currentTask: 'Checking redirect targets...' });
+      const executiveSummary = { ...generatedSummary, redirectMap: await checkRedirectMap(generatedSummary.redirects, abortControllerRef.current.signal) };
+      const redirectErrors = executiveSummary.redirectMap.issues.filter(i => i.severity === 'error').length;
+      if (executiveSummary.redirectMap.issues.length > 0) {
+        addLog(`Redirect map: ${executiveSummary.redirectMap.rules.length} redirects ready to ship, ${redirectErrors} left out (loops, conflicts or broken targets)`, redirectErrors > 0 ? 'warning' : 'info', 'summary');
+      }
 
       updateStage('summary', { status: 'complete', progress: 100, endTime: Date.now() });
       addLog('Executive summary complete', 'success', 'summary');
@@ -385,8 +684,7 @@ const App: React.FC = () => {
 
       addLog('Analysis complete! Building final report...', 'success');
 
-      const newAnalysis: HistoricalAnalysis = {
-        id: new Date().toISOString(),
+      const newAnalysis: Omit<HistoricalAnalysis, 'id'> = {
         date: new Date().toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' }),
         sitemapUrl: data.url,
         competitorSitemaps: competitorUrls,
@@ -399,15 +697,12 @@ const App: React.FC = () => {
         executiveSummary: executiveSummary,
       };
 
-      const updatedHistory = [newAnalysis, ...analysisHistory].slice(0, 10);
-      setAnalysisHistory(updatedHistory);
-      try { localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updatedHistory)); } catch (e) { console.warn('Failed to persist history:', e); }
-
-      setSelectedAnalysisId(newAnalysis.id);
+      const savedAnalysis = await saveAnalysisToHistory(newAnalysis);
+      setSelectedAnalysisId(savedAnalysis.id);
       setAppState('results');
 
     } catch (e) {
-      if (isCancelling) return;
+      if (isCancelling || abortControllerRef.current?.signal.aborted) return;
       console.error(e);
       const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
       setError(errorMessage);
@@ -417,17 +712,15 @@ const App: React.FC = () => {
       ));
       setAppState('error');
     }
-  }, [aiConfig, analysisHistory, updateStage, addLog, resetPipeline, isCancelling]);
+  }, [aiConfig, saveAnalysisToHistory, updateStage, addLog, resetPipeline, isCancelling]);
 
   const handleGscConnect = useCallback((token: GscTokenResponse, sites: GscSite[]) => {
-    setGscToken(token);
-    setGscSites(sites);
+    gscSession.connect(token, sites);
     setIsGscModalOpen(false);
   }, []);
 
   const handleGscDisconnect = useCallback(() => {
-    setGscToken(null);
-    setGscSites([]);
+    gscSession.disconnect();
   }, []);
 
   const renderContent = () => {
@@ -435,7 +728,7 @@ const App: React.FC = () => {
       case 'configure_ai':
         return (
           <div className="max-w-3xl mx-auto mt-10">
-            <AiConfiguration onConfigured={handleAiConfigChange} currentConfig={aiConfig} />
+            <AiConfiguration onConfigured={handleAiConfigChange} currentConfig={aiConfig} syncedPreferences={syncedAiPreferences} />
           </div>
         );
 
@@ -497,9 +790,11 @@ const App: React.FC = () => {
             onSubmit={handleSubmit}
             gscSites={gscSites}
             isGscConnected={isGscConnected}
+            defaultSiteUrl={gscState.property}
             isAiConfigured={!!aiConfig}
             aiConfig={aiConfig}
             onAiSettingsClick={handleAiSettingsChange}
+            onNetworkSettingsClick={() => setIsNetworkModalOpen(true)}
           />
         );
 
@@ -538,9 +833,11 @@ const App: React.FC = () => {
             onSubmit={handleSubmit}
             gscSites={gscSites}
             isGscConnected={isGscConnected}
+            defaultSiteUrl={gscState.property}
             isAiConfigured={!!aiConfig}
             aiConfig={aiConfig}
             onAiSettingsClick={handleAiSettingsChange}
+            onNetworkSettingsClick={() => setIsNetworkModalOpen(true)}
           />
         );
     }
@@ -559,9 +856,18 @@ const App: React.FC = () => {
           </Modal>
         )}
 
+        {isNetworkModalOpen && (
+          <Modal title="Network Settings" onClose={() => setIsNetworkModalOpen(false)}>
+            <FetchTransportSettings onSaved={() => setIsNetworkModalOpen(false)} />
+          </Modal>
+        )}
+
         <div className="flex">
           <HistoryPanel
             history={analysisHistory}
+            hasMore={historyHasMore}
+            isLoading={isHistoryLoading}
+            onLoadMore={handleLoadMoreHistory}
             selectedId={selectedAnalysisId}
             isOpen={isHistoryPanelOpen}
             onClose={() => setIsHistoryPanelOpen(false)}
@@ -577,8 +883,10 @@ const App: React.FC = () => {
             }}
             onClear={() => {
               setAnalysisHistory([]);
+              setHistoryPage(0);
+              setHistoryHasMore(false);
               setSelectedAnalysisId(null);
-              localStorage.removeItem(HISTORY_STORAGE_KEY);
+              historyRepository.clear();
               cacheService.clearCache('*');
               handleGscDisconnect();
               handleNewAnalysis();
@@ -595,6 +903,11 @@ const App: React.FC = () => {
                 onConnectClick={() => setIsGscModalOpen(true)}
                 isAiConfigured={!!aiConfig}
                 onAiSettingsClick={handleAiSettingsChange}
+                onNetworkSettingsClick={() => setIsNetworkModalOpen(true)}
+                isAuthAvailable={isAuthAvailable()}
+                userEmail={authUser?.email ?? null}
+                onSignIn={sendMagicLink}
+                onSignOut={handleSignOut}
               />
               <main>{renderContent()}</main>
             </div>
@@ -5,6 +5,7 @@ import type { HistoricalAnalysis, DailyActionPlan, AiConfig, GscTokenResponse }
 import { DailyPlanCard } from './DailyPlanCard';
 import { StrategicRoadmap } from './StrategicRoadmap';
 import { SitewideAuditDisplay } from './SitewideAuditDisplay';
+import { StrikingDistanceDisplay } from './StrikingDistanceDisplay';
 import { AutonomousAIHeader } from './AutonomousAIHeader';
 import { ExecutiveSummary } from './ExecutiveSummary';
 import { CopyReportButton } from './CopyReportButton';
@@ -30,6 +31,7 @@ export const ActionPlanDashboard: React.FC<ActionPlanDashboardProps> = (props) =
     const { actionPlan, sitewideAnalysis, executiveSummary } = analysis;
     const [selectedDay, setSelectedDay] = useState<number>(actionPlan?.[0]?.day || 1);
     const [isSitewideAuditOpen, setIsSitewideAuditOpen] = useState(false);
+    const [isStrikingDistanceOpen, setIsStrikingDistanceOpen] = useState(false);
 
     const progress = useMemo(() => {
         if (!actionPlan) return { completed: 0, total: 0, percentage: 0 };
@@ -111,6 +113,29 @@ export const ActionPlanDashboard: React.FC<ActionPlanDashboardProps> = (props) =
                 </div>
             </div>
 
+            {sitewideAnalysis?.strikingDistance && sitewideAnalysis.strikingDistance.entries.length > 0 && (
+                <div className="border border-gray-800 rounded-lg bg-gray-900/50">
+                    <button
+                        onClick={() => setIsStrikingDistanceOpen(!isStrikingDistanceOpen)}
+                        className="w-full flex justify-between items-center p-4 text-left font-semibold text-lg text-gray-200 hover:bg-gray-800/50 rounded-lg transition-colors"
+                        aria-expanded={isStrikingDistanceOpen}
+                    >
+                        <div className="flex items-center gap-3">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                            </svg>
+                            View Striking Distance Keywords
+                        </div>
+                        <ChevronIcon isOpen={isStrikingDistanceOpen} />
+                    </button>
+                    <div className={`overflow-hidden transition-all duration-500 ease-in-out ${isStrikingDistanceOpen ? 'max-h-[5000px]' : 'max-h-0'}`}>
+                        <div className="p-4 border-t border-gray-800">
+                            <StrikingDistanceDisplay report={sitewideAnalysis.strikingDistance} />
+                        </div>
+                    </div>
+                </div>
+            )}
+
             <div className="border border-gray-800 rounded-lg bg-gray-900/50">
                 <button
                     onClick={() => setIsSitewideAuditOpen(!isSitewideAuditOpen)}
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import type { AiProvider, AiConfig } from '../types';
 import { validateApiKey } from '../services/aiValidationService';
+import { hashApiKey, type SyncedAiPreferences } from '../services/aiConfigSync';
 
 interface AiConfigurationProps {
   onConfigured: (config: AiConfig) => void;
   currentConfig: AiConfig | null;
+  syncedPreferences?: SyncedAiPreferences | null;
 }
 
 type ValidationState = 'idle' | 'validating' | 'valid' | 'invalid';
@@ -25,12 +27,36 @@ const ValidationIndicator: React.FC<{ state: ValidationState, message?: string }
     }
 }
 
-export const AiConfiguration: React.FC<AiConfigurationProps> = ({ onConfigured, currentConfig }) => {
+export const AiConfiguration: React.FC<AiConfigurationProps> = ({ onConfigured, currentConfig, syncedPreferences }) => {
   const [provider, setProvider] = useState<AiProvider>(currentConfig?.provider || 'gemini');
   const [apiKey, setApiKey] = useState(currentConfig?.apiKey || '');
   const [model, setModel] = useState(currentConfig?.model || '');
   const [validationState, setValidationState] = useState<ValidationState>(currentConfig ? 'valid' : 'idle');
   const [validationMessage, setValidationMessage] = useState<string>('');
+  const [matchesSyncedKey, setMatchesSyncedKey] = useState(false);
+
+  // Pre-select the provider/model synced from the user's account on another device
+  useEffect(() => {
+    if (syncedPreferences && !currentConfig) {
+      setProvider(syncedPreferences.provider);
+      setModel(syncedPreferences.model || '');
+    }
+  }, [syncedPreferences, currentConfig]);
+
+  useEffect(() => {
+    if (!syncedPreferences || !apiKey.trim()) {
+      setMatchesSyncedKey(false);
+      return;
+    }
+    let cancelled = false;
+    hashApiKey(apiKey.trim()).then(hash => {
+      if (!cancelled) setMatchesSyncedKey(hash === syncedPreferences.apiKeyHash);
+    }).catch(() => {
+      // Without crypto.subtle the key can't be compared; just don't claim a match
+      if (!cancelled) setMatchesSyncedKey(false);
+    });
+    return () => { cancelled = true; };
+  }, [apiKey, syncedPreferences]);
   
   const debouncedValidate = useCallback((config: AiConfig) => {
     if (!config.apiKey) {
@@ -79,6 +105,11 @@ export const AiConfiguration: React.FC<AiConfigurationProps> = ({ onConfigured,
       <div className="text-center mb-6">
         <h2 className="text-2xl font-bold text-gray-200">Configure AI Provider</h2>
         <p className="text-gray-400 mt-2">Choose your preferred AI service and enter your API key to begin.</p>
+        {syncedPreferences && (
+          <p className="text-xs text-blue-300 mt-3">
+            Restored your {providerDetails[syncedPreferences.provider].name} selection from your account. API keys are never synced, so please enter yours on this device.
+          </p>
+        )}
       </div>
       <form onSubmit={handleSubmit} className="space-y-6">
         <div>
@@ -99,6 +130,9 @@ export const AiConfiguration: React.FC<AiConfigurationProps> = ({ onConfigured,
                 <ValidationIndicator state={validationState} message={validationMessage} />
             </div>
             <input id="apiKey" type="password" value={apiKey} onChange={e => setApiKey(e.target.value)} required placeholder={`Enter your ${providerDetails[provider].name} API Key`} className="w-full px-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
+            {matchesSyncedKey && (
+              <p className="text-xs text-green-400 mt-1.5">This is the same key you use on your other devices.</p>
+            )}
             <a href={providerDetails[provider].getLink} target="_blank" rel="noopener noreferrer" className="text-xs text-gray-500 hover:text-blue-400 hover:underline mt-1.5 inline-block">Where do I find my API key?</a>
         </div>
 
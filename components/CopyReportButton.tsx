@@ -1,7 +1,9 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import type { HistoricalAnalysis } from '../types';
 import { generateReportMarkdown } from '../utils/reportGenerator';
+import { validateRedirects } from '../services/redirectMapService';
+import { RedirectExportMenu } from './RedirectExportMenu';
 
 const CopyIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -21,6 +23,12 @@ interface CopyReportButtonProps {
 
 export const CopyReportButton: React.FC<CopyReportButtonProps> = ({ analysis }) => {
     const [copied, setCopied] = useState(false);
+    const [isRedirectMenuOpen, setIsRedirectMenuOpen] = useState(false);
+    const summary = analysis.executiveSummary;
+    const redirectMap = useMemo(
+        () => summary && summary.redirects.length > 0 ? summary.redirectMap ?? validateRedirects(summary.redirects) : null,
+        [summary]
+    );
 
     const handleCopy = useCallback(() => {
         const reportText = generateReportMarkdown(analysis);
@@ -31,17 +39,34 @@ export const CopyReportButton: React.FC<CopyReportButtonProps> = ({ analysis })
     }, [analysis]);
 
     return (
-        <button
-            onClick={handleCopy}
-            className={`flex items-center gap-2 text-sm font-semibold px-4 py-2 rounded-lg transition-all duration-200 ${
-                copied
-                ? 'bg-green-500/20 text-green-300 ring-1 ring-inset ring-green-500/40'
-                : 'bg-gray-800 hover:bg-gray-700 text-white shadow-lg ring-1 ring-inset ring-gray-700'
-            }`}
-            aria-label="Copy full strategy report to clipboard"
-        >
-            {copied ? <CheckIcon /> : <CopyIcon />}
-            {copied ? 'Report Copied!' : 'Export Full Report'}
-        </button>
+        <div className="relative flex items-center gap-2">
+            <button
+                onClick={handleCopy}
+                className={`flex items-center gap-2 text-sm font-semibold px-4 py-2 rounded-lg transition-all duration-200 ${
+                    copied
+                    ? 'bg-green-500/20 text-green-300 ring-1 ring-inset ring-green-500/40'
+                    : 'bg-gray-800 hover:bg-gray-700 text-white shadow-lg ring-1 ring-inset ring-gray-700'
+                }`}
+                aria-label="Copy full strategy report to clipboard"
+            >
+                {copied ? <CheckIcon /> : <CopyIcon />}
+                {copied ? 'Report Copied!' : 'Export Full Report'}
+            </button>
+            {redirectMap && (
+                <button
+                    onClick={() => setIsRedirectMenuOpen(open => !open)}
+                    className="text-sm font-semibold px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-white shadow-lg ring-1 ring-inset ring-gray-700 transition-all duration-200"
+                    aria-expanded={isRedirectMenuOpen}
+                >
+                    Export Redirects
+                </button>
+            )}
+            {redirectMap && isRedirectMenuOpen && (
+                <div className="absolute right-0 top-full mt-2 z-20 w-80 sm:w-[28rem] bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-xl">
+                    <p className="text-xs text-gray-400 mb-2">{redirectMap.rules.length} validated redirect{redirectMap.rules.length === 1 ? '' : 's'}. Pick a format to copy.</p>
+                    <RedirectExportMenu map={redirectMap} />
+                </div>
+            )}
+        </div>
     );
 };
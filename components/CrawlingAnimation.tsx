@@ -51,6 +51,16 @@ const phaseDetails = {
     }
 };
 
+const MAX_SITEMAPS_IN_BREAKDOWN = 5;
+
+const sitemapLabel = (url: string): string => {
+    try {
+        return new URL(url).pathname.split('/').filter(Boolean).pop() || url;
+    } catch {
+        return url;
+    }
+};
+
 export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progress }) => {
     const [log, setLog] = useState<string[]>([]);
     const logContainerRef = useRef<HTMLUListElement>(null);
@@ -91,6 +101,11 @@ export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progr
     
     const details = phaseDetails[progress.type] || phaseDetails.crawling;
 
+    const breakdown = Object.entries(progress.urlsBySitemap ?? {}).sort((a, b) => b[1] - a[1]);
+    const topSitemaps = breakdown.slice(0, MAX_SITEMAPS_IN_BREAKDOWN);
+    const otherCount = breakdown.slice(MAX_SITEMAPS_IN_BREAKDOWN).reduce((sum, [, count]) => sum + count, 0);
+    const maxCount = topSitemaps[0]?.[1] ?? 0;
+
     return (
         <div className="relative mt-8 p-8 bg-gray-900 rounded-2xl border border-gray-800 overflow-hidden animate-fade-in">
             <div className="absolute inset-0 bg-grid-pattern opacity-30 animate-grid-pan"></div>
@@ -123,6 +138,25 @@ export const CrawlingAnimation: React.FC<{ progress: CrawlProgress }> = ({ progr
                             <span className="text-gray-500">URLs Discovered:</span>
                             <span className="text-teal-400 font-semibold">{progress.pagesFound?.toLocaleString() ?? 0}</span>
                         </div>
+                        {breakdown.length > 1 && (
+                            <ul className="space-y-1.5 text-xs">
+                                {topSitemaps.map(([sitemap, count]) => (
+                                    <li key={sitemap} className="flex items-center gap-3" title={sitemap}>
+                                        <span className="w-40 truncate text-gray-400">{sitemapLabel(sitemap)}</span>
+                                        <div className="flex-1 bg-gray-700/50 rounded-full h-1.5">
+                                            <div className="bg-teal-500/70 h-1.5 rounded-full transition-all duration-300" style={{ width: `${(count / maxCount) * 100}%` }}></div>
+                                        </div>
+                                        <span className="w-14 text-right text-gray-300">{count.toLocaleString()}</span>
+                                    </li>
+                                ))}
+                                {otherCount > 0 && (
+                                    <li className="flex justify-between text-gray-500">
+                                        <span>{breakdown.length - MAX_SITEMAPS_IN_BREAKDOWN} more sitemaps</span>
+                                        <span>{otherCount.toLocaleString()}</span>
+                                    </li>
+                                )}
+                            </ul>
+                        )}
                     </div>
                     
                     <div className="mt-6">
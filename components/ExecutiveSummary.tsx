@@ -1,6 +1,8 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import type { ExecutiveSummary as ExecutiveSummaryType } from '../types';
+import { validateRedirects } from '../services/redirectMapService';
+import { RedirectExportMenu } from './RedirectExportMenu';
 
 const RewriteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5"><path d="M2.695 14.763l-1.262 3.154a.5.5 0 00.65.65l3.155-1.262a4 4 0 001.343-.885L17.5 5.5a2.121 2.121 0 00-3-3L3.58 13.42a4 4 0 00-.885 1.343z" /></svg>;
 const OptimizeIcon = () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5"><path d="M11.983 1.904a1.75 1.75 0 00-3.966 0l-3.134 6.346a1.75 1.75 0 001.65 2.503h6.268a1.75 1.75 0 001.65-2.503L11.983 1.904zM10 12.25a.75.75 0 01.75.75v3.5a.75.75 0 01-1.5 0v-3.5a.75.75 0 01.75-.75z" /></svg>;
@@ -25,6 +27,9 @@ interface ExecutiveSummaryProps {
 }
 
 export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ summary }) => {
+  // Reports saved before redirect checking get the structural checks only
+  const redirectMap = useMemo(() => summary.redirectMap ?? validateRedirects(summary.redirects), [summary]);
+
   return (
     <div className="bg-gray-900 border border-gray-800 rounded-xl p-6 shadow-xl space-y-8 animate-fade-in">
       <div>
@@ -82,6 +87,29 @@ export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ summary }) =
             )}
         />
       </div>
+
+      {summary.redirects.length > 0 && (
+        <div className="bg-gray-950/60 p-4 rounded-lg border border-gray-700/60 space-y-4">
+          <div>
+            <h3 className="flex items-center gap-2 font-bold text-lg text-teal-300"><RedirectIcon /> Redirect Map</h3>
+            <p className="text-sm text-gray-400 mt-1">
+              {redirectMap.rules.length} of {summary.redirects.length} redirects are ready to ship
+              {redirectMap.targetsChecked > 0 ? `; ${redirectMap.targetsChecked} targets were checked on the live site.` : '. Targets were not checked on the live site.'}
+            </p>
+          </div>
+          {redirectMap.issues.length > 0 && (
+            <ul className="space-y-1.5 text-sm">
+              {redirectMap.issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-2">
+                  <span className={`text-xs font-semibold uppercase px-2 py-0.5 rounded-full shrink-0 ${issue.severity === 'error' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}>{issue.severity}</span>
+                  <span className="text-gray-400 break-all"><span className="font-mono text-gray-300">{issue.from}</span>: {issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <RedirectExportMenu map={redirectMap} />
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
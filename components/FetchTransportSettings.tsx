@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import type { FetchTransportConfig, FetchTransportKind } from '../types';
+import { getFetchTransportConfig, setFetchTransportConfig, testFetchTransport } from '../services/fetchTransport';
+
+interface FetchTransportSettingsProps {
+    onSaved: () => void;
+}
+
+const transportDetails: Record<FetchTransportKind, { name: string; description: string }> = {
+    bundled_proxy: {
+        name: 'Self-hosted proxy',
+        description: 'Requests go through the proxy that ships with this app: built into the dev server, or started with "npm run proxy". Nothing leaves your machine except the requests to the sites themselves, and redirect chains are fully visible.',
+    },
+    custom_proxy: {
+        name: 'Custom proxy',
+        description: 'Requests go through a proxy you run or trust. Use {url} where the encoded target URL belongs; without it the URL is appended.',
+    },
+    direct: {
+        name: 'Direct',
+        description: 'The browser fetches sites itself. Private, but only works for sites that allow cross-origin requests, so most crawls will fail.',
+    },
+};
+
+export const FetchTransportSettings: React.FC<FetchTransportSettingsProps> = ({ onSaved }) => {
+    const [config, setConfig] = useState<FetchTransportConfig>(getFetchTransportConfig);
+    const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    const update = (changes: Partial<FetchTransportConfig>) => {
+        setConfig(prev => ({ ...prev, ...changes }));
+        setTestResult(null);
+        setSaveError(null);
+    };
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setTestResult(await testFetchTransport(config));
+        setIsTesting(false);
+    };
+
+    const handleSave = () => {
+        try {
+            setFetchTransportConfig({ kind: config.kind, proxyUrl: config.proxyUrl?.trim() || undefined });
+            onSaved();
+        } catch (e) {
+            setSaveError(e instanceof Error ? e.message : 'Could not save these settings.');
+        }
+    };
+
+    const needsUrl = config.kind === 'custom_proxy' && !config.proxyUrl?.trim();
+
+    return (
+        <div className="space-y-6 text-gray-300">
+            <p className="text-sm text-gray-400">Choose how the crawler, page fetcher and status checker reach the sites you analyze.</p>
+            <div className="space-y-2">
+                {(Object.keys(transportDetails) as FetchTransportKind[]).map(kind => (
+                    <button
+                        key={kind}
+                        type="button"
+                        onClick={() => update({ kind, proxyUrl: kind === config.kind ? config.proxyUrl : '' })}
+                        className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ${config.kind === kind ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800/60 border-gray-700 hover:border-gray-600'}`}
+                    >
+                        <span className="block font-semibold text-gray-200">{transportDetails[kind].name}</span>
+                        <span className="block text-xs text-gray-400 mt-1">{transportDetails[kind].description}</span>
+                    </button>
+                ))}
+            </div>
+
+            {config.kind === 'direct' && (
+                <div className="p-3 text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-500/40 rounded-lg" role="status">
+                    Most sites send no CORS headers, so direct crawls usually fail and status checks come back unchecked. On a production build, run "npm run proxy" and pick the self-hosted proxy, or use a custom proxy.
+                </div>
+            )}
+
+            {config.kind !== 'direct' && (
+                <div className="animate-fade-in">
+                    <label htmlFor="proxyUrl" className="block text-sm font-semibold text-gray-400 mb-1">
+                        {config.kind === 'custom_proxy' ? 'Proxy URL' : 'Standalone proxy address (optional)'}
+                    </label>
+                    <input
+                        id="proxyUrl"
+                        type="text"
+                        value={config.proxyUrl || ''}
+                        onChange={e => update({ proxyUrl: e.target.value })}
+                        placeholder={config.kind === 'custom_proxy' ? 'https://proxy.example.com/fetch?url={url}' : 'http://127.0.0.1:8787'}
+                        className="w-full px-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500"
+                    />
+                    {config.kind === 'bundled_proxy' && (
+                        <p className="text-xs text-gray-500 mt-1.5">Leave blank to use the proxy built into the dev server.</p>
+                    )}
+                </div>
+            )}
+
+            {testResult && (
+                <p className={`text-sm ${testResult.success ? 'text-green-400' : 'text-red-400'}`}>{testResult.message}</p>
+            )}
+            {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+
+            <div className="flex gap-3 pt-4 border-t border-gray-800">
+                <button
+                    type="button"
+                    onClick={handleTest}
+                    disabled={isTesting || needsUrl}
+                    className="flex-1 px-4 py-3 font-semibold text-gray-200 bg-gray-800 rounded-lg hover:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                    {isTesting ? 'Testing...' : 'Test Connection'}
+                </button>
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={needsUrl}
+                    className="flex-1 px-4 py-3 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                    Save
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -3,9 +3,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import type { GscSite, GscTokenResponse } from '../types';
 import { fetchGscSites } from '../services/gscService';
-
-const GSC_CLIENT_ID_STORAGE_KEY = 'orchestrator-ai-gsc-client-id';
-const GSC_SCOPE = 'https://www.googleapis.com/auth/webmasters.readonly';
+import { GSC_CLIENT_ID_STORAGE_KEY, GSC_SCOPE } from '../services/gscSessionManager';
 const GOOGLE_SCRIPT_ID = 'google-gsi-script';
 
 declare global {
@@ -1,27 +1,46 @@
 
-import React, { useState, useCallback } from 'react';
-import type { AnalysisType, GscSite, AiProvider, AiConfig } from '../types';
+import React, { useState, useCallback, useEffect } from 'react';
+import type { AnalysisType, GscSite, AiProvider, AiConfig, CrawlSettings, SitemapCandidate, SitemapSource } from '../types';
 import { AiConfiguration } from './AiConfiguration';
 import { discoverCompetitors } from '../services/aiService';
+import { discoverSitemaps, normalizeSiteOrigin } from '../services/sitemapDiscoveryService';
+import { gscSession, findGscProperty } from '../services/gscSessionManager';
+import { getFetchTransportConfig } from '../services/fetchTransport';
+import { CRAWL_SETTINGS_LIMITS, DEFAULT_CRAWL_SETTINGS, normalizeCrawlSettings } from '../services/crawlEngine';
 
 export interface WizardSubmitData {
   url: string; // This is the GSC Site URL or manually entered site
-  sitemapUrl: string;
+  sitemapUrl: string; // Empty means "discover it from the site"
   competitorSitemaps: string;
   analysisType: AnalysisType;
   targetLocation: string;
+  crawlSettings: CrawlSettings;
 }
 
 interface GuidedAnalysisWizardProps {
   isLoading: boolean;
   onSubmit: (data: WizardSubmitData) => void;
   gscSites: GscSite[];
+  defaultSiteUrl?: string | null; // Last used GSC property
   isGscConnected: boolean;
   isAiConfigured: boolean;
   aiConfig: AiConfig | null;
   onAiSettingsClick: () => void;
+  onNetworkSettingsClick: () => void;
 }
 
+const CRAWL_SETTING_FIELDS: { key: keyof CrawlSettings; label: string; hint: string }[] = [
+    { key: 'maxUrls', label: 'Max URLs', hint: 'Sampled across every sitemap and section' },
+    { key: 'concurrency', label: 'Concurrency', hint: 'Sitemaps fetched in parallel' },
+    { key: 'timeoutSeconds', label: 'Timeout (s)', hint: 'For the whole crawl' },
+];
+
+const SOURCE_LABELS: Record<SitemapSource, string> = {
+    gsc: 'GSC',
+    robots: 'robots.txt',
+    probe: 'Found',
+};
+
 const Step: React.FC<{ currentStep: number; stepNumber: number; title: string; children: React.ReactNode }> = ({ currentStep, stepNumber, title, children }) => {
     const isActive = currentStep === stepNumber;
     if (!isActive) return null;
@@ -44,31 +63,83 @@ const ProgressIndicator: React.FC<{ currentStep: number, totalSteps: number }> =
     )
 }
 
-export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLoading, onSubmit, gscSites, isGscConnected, isAiConfigured, aiConfig, onAiSettingsClick }) => {
+export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLoading, onSubmit, gscSites, defaultSiteUrl, isGscConnected, isAiConfigured, aiConfig, onAiSettingsClick, onNetworkSettingsClick }) => {
     const [step, setStep] = useState(1);
     const [data, setData] = useState<WizardSubmitData>({
-        url: '',
+        url: defaultSiteUrl || '',
         sitemapUrl: '',
         competitorSitemaps: '',
         analysisType: 'global',
-        targetLocation: ''
+        targetLocation: '',
+        crawlSettings: DEFAULT_CRAWL_SETTINGS
     });
+    const [showCrawlSettings, setShowCrawlSettings] = useState(false);
     const [isFindingCompetitors, setIsFindingCompetitors] = useState(false);
+    const [sitemapCandidates, setSitemapCandidates] = useState<SitemapCandidate[]>([]);
+    const [isDiscoveringSitemaps, setIsDiscoveringSitemaps] = useState(false);
+    const [sitemapDiscoveryError, setSitemapDiscoveryError] = useState<string | null>(null);
+
+    const runSitemapDiscovery = useCallback(async (siteUrl: string) => {
+        if (!normalizeSiteOrigin(siteUrl)) return;
+        setIsDiscoveringSitemaps(true);
+        setSitemapDiscoveryError(null);
+        setSitemapCandidates([]);
+        try {
+            const gsc = gscSession.getState();
+            const gscProperty = gsc.status === 'connected' ? findGscProperty(siteUrl, gsc.sites) : null;
+            const accessToken = gscProperty ? await gscSession.getAccessToken() : null;
+            const candidates = await discoverSitemaps(siteUrl, { accessToken, gscSiteUrl: gscProperty ?? undefined });
+            setSitemapCandidates(candidates);
+            if (candidates.length === 0) {
+                setSitemapDiscoveryError('No sitemap found in GSC, robots.txt or the usual locations. Please enter its URL.');
+            } else {
+                // Don't overwrite a sitemap the user typed in the meantime
+                setData(prev => prev.url === siteUrl && !prev.sitemapUrl ? { ...prev, sitemapUrl: candidates[0].url } : prev);
+            }
+        } catch (e) {
+            setSitemapDiscoveryError(e instanceof Error ? e.message : 'Sitemap discovery failed.');
+        } finally {
+            setIsDiscoveringSitemaps(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (defaultSiteUrl) runSitemapDiscovery(defaultSiteUrl);
+        // Only for the property restored on mount
+    }, []);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
         setData(prev => ({ ...prev, [name]: value }));
+        if (name === 'url') {
+            // Candidates belong to the previous site
+            setSitemapCandidates([]);
+            setSitemapDiscoveryError(null);
+        }
     };
 
     const handleSiteSelection = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const siteUrl = e.target.value;
         if (!siteUrl) return;
-        const siteUrlWithSlash = siteUrl.endsWith('/') ? siteUrl : `${siteUrl}/`;
         setData(prev => ({
             ...prev,
             url: siteUrl,
-            sitemapUrl: `${siteUrlWithSlash}sitemap.xml`
+            sitemapUrl: ''
         }));
+        runSitemapDiscovery(siteUrl);
+    };
+
+    const handleUrlBlur = () => {
+        if (data.url && !data.sitemapUrl) runSitemapDiscovery(data.url);
+    };
+
+    const handleCrawlSettingChange = (key: keyof CrawlSettings, value: string) => {
+        setData(prev => ({ ...prev, crawlSettings: { ...prev.crawlSettings, [key]: Number(value) } }));
+    };
+
+    // Out-of-range values are clamped when leaving the field
+    const handleCrawlSettingBlur = () => {
+        setData(prev => ({ ...prev, crawlSettings: normalizeCrawlSettings(prev.crawlSettings) }));
     };
 
     const handleAnalysisTypeChange = (type: AnalysisType) => {
@@ -76,8 +147,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
     }
 
     const handleNext = useCallback(async () => {
-        if (step === 1 && !data.url) return;
-        if (step === 1 && !data.sitemapUrl) return;
+        if (step === 1 && !normalizeSiteOrigin(data.url)) return;
         if (step === 3 && data.analysisType === 'local' && !data.targetLocation) return;
         setStep(s => s + 1);
     }, [step, data]);
@@ -86,7 +156,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
     
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSubmit(data);
+        onSubmit({ ...data, crawlSettings: normalizeCrawlSettings(data.crawlSettings) });
     };
 
     const handleFindCompetitors = async () => {
@@ -112,6 +182,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
     };
 
     const totalSteps = 4;
+    const isDirectTransport = getFetchTransportConfig().kind === 'direct';
     const isLaunchDisabled = isLoading || !isAiConfigured;
 
     return (
@@ -149,7 +220,7 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
                      ) : (
                          <div>
                             <label htmlFor="url" className="block text-sm font-medium text-gray-400 mb-1">Primary Website URL</label>
-                            <input id="url" name="url" type="url" value={data.url} onChange={handleChange} required placeholder="https://your-website.com" className="w-full px-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
+                            <input id="url" name="url" type="text" inputMode="url" value={data.url} onChange={handleChange} onBlur={handleUrlBlur} required placeholder="your-website.com" className="w-full px-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
                         </div>
                      )}
 
@@ -159,13 +230,52 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
                             <label htmlFor="sitemapUrl" className="block text-sm font-medium text-gray-400 mb-1">Sitemap URL</label>
                             <div className="relative">
                                 <svg aria-hidden="true" className="absolute w-5 h-5 text-gray-500 left-4 top-1/2 -translate-y-1/2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 011.242 7.244l-4.5 4.5a4.5 4.5 0 01-6.364-6.364l1.757-1.757m13.35-.622l1.757-1.757a4.5 4.5 0 00-6.364-6.364l-4.5 4.5a4.5 4.5 0 001.242 7.244" /></svg>
-                                <input id="sitemapUrl" name="sitemapUrl" type="url" value={data.sitemapUrl} onChange={handleChange} required placeholder="https://your-website.com/sitemap.xml" className="w-full pl-12 pr-4 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
+                                <input id="sitemapUrl" name="sitemapUrl" type="url" value={data.sitemapUrl} onChange={handleChange} placeholder={isDiscoveringSitemaps ? 'Looking for sitemaps...' : 'Leave blank to detect automatically'} className="w-full pl-12 pr-28 py-3 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 placeholder-gray-500" />
+                                <button
+                                    type="button"
+                                    onClick={() => runSitemapDiscovery(data.url)}
+                                    disabled={isDiscoveringSitemaps || !normalizeSiteOrigin(data.url)}
+                                    className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-1.5 text-xs font-semibold text-blue-300 bg-gray-700/80 rounded-md hover:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isDiscoveringSitemaps ? 'Detecting...' : 'Detect'}
+                                </button>
                             </div>
-                            {isGscConnected && (
-                                <p className="text-xs text-gray-500 mt-2">We've guessed your sitemap location based on your selected property. Please correct it if it's different.</p>
+                            {sitemapCandidates.length > 0 && (
+                                <div className="mt-3 space-y-1.5">
+                                    <p className="text-xs text-gray-500">Sitemaps found for this site:</p>
+                                    {sitemapCandidates.map(candidate => (
+                                        <button
+                                            key={candidate.url}
+                                            type="button"
+                                            onClick={() => setData(prev => ({ ...prev, sitemapUrl: candidate.url }))}
+                                            className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm rounded-md border transition-colors ${data.sitemapUrl === candidate.url ? 'border-blue-500 bg-blue-500/10 text-gray-200' : 'border-gray-700 bg-gray-800/50 text-gray-400 hover:border-gray-600'}`}
+                                        >
+                                            <span className="truncate">{candidate.url}</span>
+                                            <span className="flex gap-1 shrink-0">
+                                                {candidate.isIndex && <span className="text-xs px-2 py-0.5 rounded-full bg-teal-500/20 text-teal-300">Index</span>}
+                                                {candidate.sources.map(source => (
+                                                    <span key={source} className="text-xs px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{SOURCE_LABELS[source]}</span>
+                                                ))}
+                                            </span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {sitemapDiscoveryError && (
+                                <p className="text-xs text-yellow-400 mt-2">{sitemapDiscoveryError}</p>
+                            )}
+                            {!data.sitemapUrl && !isDiscoveringSitemaps && !sitemapDiscoveryError && (
+                                <p className="text-xs text-gray-500 mt-2">If left blank, we'll find your sitemap from robots.txt, Search Console and common locations when the analysis starts.</p>
                             )}
                         </div>
                      )}
+
+                     {isDirectTransport && (
+                        <div className="mt-4 p-3 text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-500/40 rounded-lg" role="status">
+                            Requests go directly from your browser, so sites that send no CORS headers (most of them) can't be crawled or status-checked.{' '}
+                            <button type="button" onClick={onNetworkSettingsClick} className="font-semibold underline hover:text-yellow-200">Set up a proxy in Network Settings</button>.
+                        </div>
+                     )}
                 </Step>
 
                 <Step currentStep={step} stepNumber={2} title="Add Competitor Sitemaps (Optional)">
@@ -220,23 +330,50 @@ export const GuidedAnalysisWizard: React.FC<GuidedAnalysisWizardProps> = ({ isLo
                             </div>
                          </div>
                      )}
+                     <div className="mt-6 border-t border-gray-800 pt-4">
+                        <button type="button" onClick={() => setShowCrawlSettings(v => !v)} className="mx-auto flex items-center gap-1 text-sm font-semibold text-gray-400 hover:text-white transition-colors">
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-4 h-4 transition-transform ${showCrawlSettings ? 'rotate-90' : ''}`}><path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" /></svg>
+                            Crawl Settings
+                        </button>
+                        {showCrawlSettings && (
+                            <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 animate-fade-in">
+                                {CRAWL_SETTING_FIELDS.map(({ key, label, hint }) => (
+                                    <div key={key}>
+                                        <label htmlFor={`crawl-${key}`} className="block text-sm font-semibold text-gray-400 mb-1">{label}</label>
+                                        <input
+                                            id={`crawl-${key}`}
+                                            type="number"
+                                            min={CRAWL_SETTINGS_LIMITS[key].min}
+                                            max={CRAWL_SETTINGS_LIMITS[key].max}
+                                            value={data.crawlSettings[key]}
+                                            onChange={e => handleCrawlSettingChange(key, e.target.value)}
+                                            onBlur={handleCrawlSettingBlur}
+                                            className="w-full px-3 py-2 bg-gray-800/80 text-gray-200 border border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200"
+                                        />
+                                        <p className="text-xs text-gray-500 mt-1">{hint}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                     </div>
                 </Step>
 
                 <Step currentStep={step} stepNumber={4} title="Ready to Orchestrate?">
                      <p className="text-center text-sm text-gray-400 mb-6">Review your configuration below. When you're ready, launch the analysis.</p>
                      <div className="bg-gray-800/50 rounded-lg p-4 space-y-3 border border-gray-700/70">
                         <p className="text-sm text-gray-400"><strong>Website URL:</strong> <span className="text-gray-200 font-mono break-all">{data.url || 'Not set'}</span></p>
-                        <p className="text-sm text-gray-400"><strong>Sitemap:</strong> <span className="text-gray-200 font-mono break-all">{data.sitemapUrl || 'Not set'}</span></p>
+                        <p className="text-sm text-gray-400"><strong>Sitemap:</strong> <span className="text-gray-200 font-mono break-all">{data.sitemapUrl || 'Detected automatically'}</span></p>
                         <p className="text-sm text-gray-400"><strong>Competitors:</strong> <span className="text-gray-200 font-mono">{data.competitorSitemaps.split('\n').filter(Boolean).length}</span></p>
                         <p className="text-sm text-gray-400"><strong>Analysis Type:</strong> <span className="text-gray-200 capitalize">{data.analysisType}</span></p>
                         {data.analysisType === 'local' && <p className="text-sm text-gray-400"><strong>Location:</strong> <span className="text-gray-200">{data.targetLocation || 'Not set'}</span></p>}
+                        <p className="text-sm text-gray-400"><strong>Crawl:</strong> <span className="text-gray-200">up to {data.crawlSettings.maxUrls.toLocaleString()} sampled URLs, {data.crawlSettings.concurrency} parallel requests, {data.crawlSettings.timeoutSeconds}s limit</span></p>
                      </div>
                 </Step>
 
                 <div className="mt-8 pt-6 border-t border-gray-800 flex justify-between items-center">
                     <button type="button" onClick={handleBack} disabled={step === 1 || isLoading} className="px-6 py-2 font-semibold text-gray-300 rounded-lg hover:bg-gray-700/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">Back</button>
                     {step < totalSteps ? (
-                        <button type="button" onClick={handleNext} disabled={isLoading || isFindingCompetitors || (step === 1 && (!data.url || !data.sitemapUrl))} className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Next</button>
+                        <button type="button" onClick={handleNext} disabled={isLoading || isFindingCompetitors || (step === 1 && !data.url)} className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Next</button>
                     ) : (
                         <button type="submit" disabled={isLaunchDisabled} className="px-8 py-3 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed flex items-center justify-center transition-colors duration-200">
                              {isLoading ? (
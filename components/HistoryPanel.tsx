@@ -4,6 +4,9 @@ import type { HistoricalAnalysis } from '../types';
 
 interface HistoryPanelProps {
   history: HistoricalAnalysis[];
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
   selectedId: string | null;
   isOpen: boolean;
   onClose: () => void;
@@ -16,7 +19,7 @@ const TrashIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w
 const GlobeIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM4.332 8.027a6.012 6.012 0 011.912-2.706C6.512 5.73 6.974 6 7.5 6A1.5 1.5 0 019 7.5V8a2 2 0 004 0 2 2 0 011.523-1.943A5.998 5.998 0 0116 10c0 .954-.225 1.852-.635 2.675A1.5 1.5 0 0114 14v-1.5a1.5 1.5 0 01-1.5-1.5 2 2 0 00-4 0 2 2 0 01-1.523 1.943A5.998 5.998 0 014 10c0-.341.042-.672.123-.988l.808-.272A1 1 0 004.332 8.027z" clipRule="evenodd" /></svg>;
 const LocationIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9.69 18a.75.75 0 01.75-.75 8.25 8.25 0 000-16.5.75.75 0 01-1.5 0 9.75 9.75 0 019.75 9.75c0 5.385-4.365 9.75-9.75 9.75z" clipRule="evenodd" /><path fillRule="evenodd" d="M6 9.75a3.75 3.75 0 117.5 0 3.75 3.75 0 01-7.5 0zm.75-2.25a.75.75 0 000 1.5h4.5a.75.75 0 000-1.5h-4.5z" clipRule="evenodd" /></svg>;
 
-const HistoryPanelContent: React.FC<Omit<HistoryPanelProps, 'isOpen' | 'onClose'>> = ({ history, selectedId, onSelect, onClear }) => {
+const HistoryPanelContent: React.FC<Omit<HistoryPanelProps, 'isOpen' | 'onClose'>> = ({ history, hasMore, isLoading, onLoadMore, selectedId, onSelect, onClear }) => {
     const [confirmClear, setConfirmClear] = useState(false);
 
     useEffect(() => {
@@ -53,7 +56,9 @@ const HistoryPanelContent: React.FC<Omit<HistoryPanelProps, 'isOpen' | 'onClose'
             )}
           </div>
           <div className="flex-grow overflow-y-auto space-y-2 p-4 pt-0 lg:p-0 lg:pr-2 lg:-mr-2">
-            {history.length === 0 ? (
+            {history.length === 0 && isLoading ? (
+              <p className="text-center text-gray-500 text-sm py-10">Loading reports...</p>
+            ) : history.length === 0 ? (
               <div className="text-center text-gray-500 text-sm py-10 px-4">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 mx-auto text-gray-700" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                   <path strokeLinecap="round" strokeLinejoin="round" d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -93,6 +98,15 @@ const HistoryPanelContent: React.FC<Omit<HistoryPanelProps, 'isOpen' | 'onClose'
                 </button>
               ))
             )}
+            {hasMore && (
+              <button
+                onClick={onLoadMore}
+                disabled={isLoading}
+                className="w-full p-2 text-xs font-semibold text-gray-400 hover:text-white rounded-lg border border-gray-800 hover:border-gray-700 hover:bg-gray-800/70 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Loading...' : 'Load older reports'}
+              </button>
+            )}
           </div>
         </>
     );
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import type { RedirectExportFormat, RedirectMap } from '../types';
+import { REDIRECT_EXPORT_FORMATS, exportRedirectMap } from '../services/redirectMapService';
+
+interface RedirectExportMenuProps {
+    map: RedirectMap;
+}
+
+/**
+ * One button per server config format; each copies the validated redirects in that format.
+ */
+export const RedirectExportMenu: React.FC<RedirectExportMenuProps> = ({ map }) => {
+    const [copied, setCopied] = useState<RedirectExportFormat | null>(null);
+
+    const handleCopy = (format: RedirectExportFormat) => {
+        navigator.clipboard.writeText(exportRedirectMap(map, format)).then(() => {
+            setCopied(format);
+            setTimeout(() => setCopied(current => current === format ? null : current), 2500);
+        });
+    };
+
+    if (map.rules.length === 0) {
+        return <p className="text-xs text-gray-500">No redirects passed validation, so there is nothing to export.</p>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {(Object.keys(REDIRECT_EXPORT_FORMATS) as RedirectExportFormat[]).map(format => (
+                <button
+                    key={format}
+                    type="button"
+                    onClick={() => handleCopy(format)}
+                    className={`text-left px-3 py-2 rounded-md text-sm transition-colors duration-200 ${copied === format ? 'bg-green-500/20 text-green-300 ring-1 ring-inset ring-green-500/40' : 'bg-gray-800 hover:bg-gray-700 text-gray-200'}`}
+                >
+                    <span className="block font-semibold">{copied === format ? 'Copied!' : REDIRECT_EXPORT_FORMATS[format].label}</span>
+                    <span className="block text-xs text-gray-500 font-mono">{REDIRECT_EXPORT_FORMATS[format].filename}</span>
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -19,6 +19,63 @@ const nodeRadii = {
   orphan: 8,
 };
 
+// Graphs built from the crawl carry measured metrics; older ones were drawn by the AI
+const isMeasuredGraph = (graphData: GraphData) => graphData.nodes.some(n => n.depth !== undefined);
+
+// Node radius grows with internal PageRank (1 = average page)
+const measuredRadius = (node: Node) => node.type === 'orphan'
+  ? nodeRadii.orphan
+  : Math.min(22, Math.max(5, 6 + Math.sqrt(node.pageRank ?? 1) * 4));
+
+/**
+ * Lay crawled pages out in rings by click depth from the homepage, with pages
+ * that can't be reached from it on the outermost ring and pages no sampled page links to along the bottom.
+ */
+const calculateDepthLayout = (graphData: GraphData, width: number, height: number): PositionedNode[] => {
+  const centerX = width / 2;
+  const centerY = (height - 60) / 2;
+  const orphanNodes = graphData.nodes.filter(n => n.type === 'orphan');
+  const linkedNodes = graphData.nodes.filter(n => n.type !== 'orphan');
+  const maxDepth = Math.max(0, ...linkedNodes.map(n => n.depth ?? 0));
+  const hasUnreachable = linkedNodes.some(n => n.depth === null);
+  const ringCount = maxDepth + (hasUnreachable ? 1 : 0);
+  const ringStep = ringCount > 0 ? (Math.min(width, height - 60) / 2 - 20) / ringCount : 0;
+
+  const rings = new Map<number, Node[]>();
+  linkedNodes.forEach(node => {
+    const ring = node.depth ?? maxDepth + 1;
+    rings.set(ring, [...(rings.get(ring) ?? []), node]);
+  });
+
+  const positionedNodes: PositionedNode[] = [];
+  rings.forEach((nodes, ring) => {
+    const angleStep = (2 * Math.PI) / nodes.length;
+    // Offset alternate rings so their nodes don't line up radially
+    const offset = ring % 2 === 0 ? 0 : angleStep / 2;
+    nodes.forEach((node, i) => {
+      positionedNodes.push({
+        ...node,
+        x: centerX + Math.cos(i * angleStep + offset) * ring * ringStep,
+        y: centerY + Math.sin(i * angleStep + offset) * ring * ringStep,
+      });
+    });
+  });
+
+  orphanNodes.forEach((node, i) => {
+    positionedNodes.push({
+      ...node,
+      x: (i + 1) * (width / (orphanNodes.length + 1)),
+      y: height - 20,
+    });
+  });
+
+  return positionedNodes;
+};
+
+const describeNode = (node: Node) => node.depth === undefined
+  ? node.id
+  : `${node.id}\nClick depth: ${node.depth ?? 'unreachable'} | Inlinks: ${node.inlinks ?? 0} | Internal PageRank: ${(node.pageRank ?? 0).toFixed(2)}`;
+
 const calculateLayout = (graphData: GraphData, width: number, height: number): PositionedNode[] => {
   if (!graphData || !graphData.nodes) return [];
 
@@ -73,15 +130,31 @@ export const SiteArchitectureGraph: React.FC<{ graphData: GraphData }> = ({ grap
     const width = 800;
     const height = 500;
     
-    const positionedNodes = useMemo(() => calculateLayout(graphData, width, height), [graphData, width, height]);
+    const measured = useMemo(() => !!graphData?.nodes && isMeasuredGraph(graphData), [graphData]);
+    const positionedNodes = useMemo(
+        () => measured ? calculateDepthLayout(graphData, width, height) : calculateLayout(graphData, width, height),
+        [graphData, measured, width, height]
+    );
+    // Too many labels overlap; keep only the hubs' labels on large graphs
+    const showAllLabels = positionedNodes.length <= 30;
     const nodeMap = useMemo(() => new Map(positionedNodes.map(n => [n.id, n])), [positionedNodes]);
 
   if (!graphData || !graphData.nodes || graphData.nodes.length === 0) {
     return <div className="text-center text-gray-500 p-8">No site architecture data available to display.</div>;
   }
 
+  const radius = (node: Node) => measured ? measuredRadius(node) : nodeRadii[node.type];
+  const orphanCount = graphData.nodes.filter(n => n.type === 'orphan').length;
+  const maxDepth = Math.max(0, ...graphData.nodes.map(n => n.depth ?? 0));
+
   return (
     <div className="bg-gray-950/50 p-4 rounded-lg border border-gray-700 w-full overflow-x-auto">
+        {measured && (
+            <p className="text-xs text-gray-400 mb-3">
+                {graphData.nodes.length} crawled pages, {graphData.linkCount ?? 0} internal links between them, {orphanCount} not linked from other sampled pages, up to {maxDepth} clicks from the homepage.
+                Rings show click depth; node size shows internal PageRank; lines show the shortest path from the homepage.
+            </p>
+        )}
         <svg viewBox={`0 0 ${width} ${height}`} className="min-w-[600px] w-full">
             <defs>
                 <marker id="arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
@@ -102,7 +175,8 @@ export const SiteArchitectureGraph: React.FC<{ graphData: GraphData }> = ({ grap
                         x2={targetNode.x}
                         y2={targetNode.y}
                         stroke="#4a5568"
-                        strokeWidth="1.5"
+                        strokeWidth={measured ? 1 : 1.5}
+                        strokeOpacity={measured ? 0.6 : 1}
                         markerEnd="url(#arrow)"
                     />
                 );
@@ -112,24 +186,26 @@ export const SiteArchitectureGraph: React.FC<{ graphData: GraphData }> = ({ grap
             {positionedNodes.map(node => (
                 <g key={node.id} transform={`translate(${node.x}, ${node.y})`} className="group cursor-pointer">
                     <circle
-                        r={nodeRadii[node.type]}
+                        r={radius(node)}
                         className={`${nodeColors[node.type]} stroke-2 transition-all duration-300 group-hover:stroke-white`}
                     />
-                    <title>{node.id}</title>
-                    <text
-                        textAnchor="middle"
-                        y={nodeRadii[node.type] + 12}
-                        className="text-[8px] fill-gray-400 group-hover:fill-white transition-colors select-none"
-                    >
-                        {node.label}
-                    </text>
+                    <title>{describeNode(node)}</title>
+                    {(showAllLabels || node.type === 'pillar') && (
+                        <text
+                            textAnchor="middle"
+                            y={radius(node) + 12}
+                            className="text-[8px] fill-gray-400 group-hover:fill-white transition-colors select-none"
+                        >
+                            {node.label}
+                        </text>
+                    )}
                 </g>
             ))}
         </svg>
         <div className="flex justify-center items-center gap-6 mt-4 text-xs text-gray-400">
-            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-blue-500/50 border border-blue-400"></div>Pillar Page</div>
-            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-teal-500/50 border border-teal-400"></div>Cluster Page</div>
-            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-gray-600/50 border border-gray-500"></div>Orphan Page</div>
+            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-blue-500/50 border border-blue-400"></div>{measured ? 'Homepage & Hubs' : 'Pillar Page'}</div>
+            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-teal-500/50 border border-teal-400"></div>{measured ? 'Linked Page' : 'Cluster Page'}</div>
+            <div className="flex items-center gap-2"><div className="w-3 h-3 rounded-full bg-gray-600/50 border border-gray-500"></div>{measured ? 'Not Linked From Sampled Pages' : 'Orphan Page'}</div>
         </div>
     </div>
   );
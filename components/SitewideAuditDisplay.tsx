@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo } from 'react';
-import type { SitewideAnalysis, TechnicalAudit, ContentGap, TopicCluster, LocalBusinessAudit, ZeroToOneInitiative } from '../types';
+import type { SitewideAnalysis, TechnicalAudit, ContentGap, TopicCluster, LocalBusinessAudit, ZeroToOneInitiative, CannibalizationReport, SitemapValidationReport, StructuredDataReport, HreflangReport } from '../types';
 import { SiteArchitectureGraph } from './SiteArchitectureGraph';
 
 const ChevronIcon: React.FC<{ isOpen: boolean }> = ({ isOpen }) => (
@@ -54,6 +54,11 @@ const TechnicalHealthSection: React.FC<{ health: TechnicalAudit }> = ({ health }
                         <span className={`text-xs capitalize font-semibold ${item.priority === 'high' ? 'text-red-400' : item.priority === 'medium' ? 'text-yellow-400' : 'text-sky-400'}`}>
                             {item.priority} Priority
                         </span>
+                        {item.evidence && item.evidence.length > 0 && (
+                            <ul className="mt-2 space-y-0.5 text-xs text-gray-400 font-mono">
+                                {item.evidence.map((line, i) => <li key={i} className="break-all">{line}</li>)}
+                            </ul>
+                        )}
                     </div>
                 </li>
             ))}
@@ -162,6 +167,175 @@ const TopicClustersSection: React.FC<{ clusters: TopicCluster[] }> = ({ clusters
     </div>
 );
 
+const KeywordCannibalizationSection: React.FC<{ report: CannibalizationReport }> = ({ report }) => (
+    <div className="space-y-6 text-gray-300">
+        <p className="text-sm text-gray-400">
+            {report.issues.length} of {report.queriesAnalyzed} queries are split between several of your URLs (from Google Search Console).
+        </p>
+        {report.consolidations.length > 0 && (
+            <div>
+                <h4 className="font-semibold text-gray-400 mb-2">Recommended Consolidations:</h4>
+                <ul className="space-y-2">
+                    {report.consolidations.map((c, index) => (
+                        <li key={index} className="text-sm bg-gray-950/50 p-3 rounded-md border border-gray-700">
+                            <div className="flex items-start justify-between gap-3">
+                                <p className="break-all">
+                                    <a href={c.from} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{c.from}</a>
+                                    <span className="text-gray-500"> → </span>
+                                    <a href={c.to} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{c.to}</a>
+                                </p>
+                                <span className={`text-xs font-semibold uppercase px-2 py-1 rounded-full shrink-0 ${c.action === 'redirect' ? 'bg-purple-900/50 text-purple-300' : 'bg-teal-900/50 text-teal-300'}`}>{c.action}</span>
+                            </div>
+                            <p className="text-xs text-gray-400 italic mt-1">{c.reason}</p>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+        <div>
+            <h4 className="font-semibold text-gray-400 mb-2">Competing Queries:</h4>
+            <div className="space-y-3">
+                {report.issues.map((issue, index) => (
+                    <div key={index} className="bg-gray-950/50 p-4 rounded-lg border border-gray-700">
+                        <div className="flex justify-between items-start mb-2">
+                            <h5 className="font-semibold text-gray-200">"{issue.query}"</h5>
+                            <span className={`text-xs capitalize font-semibold ${issue.severity === 'high' ? 'text-red-400' : issue.severity === 'medium' ? 'text-yellow-400' : 'text-sky-400'}`}>
+                                {issue.severity} Severity
+                            </span>
+                        </div>
+                        <ul className="space-y-1 text-sm">
+                            {issue.pages.map(page => (
+                                <li key={page.url} className="flex justify-between gap-3">
+                                    <span className={`break-all ${page.url === issue.primaryUrl ? 'text-green-300 font-semibold' : 'text-gray-400'}`}>
+                                        {page.url === issue.primaryUrl && 'Primary: '}{page.url}
+                                    </span>
+                                    <span className="text-xs text-gray-500 shrink-0">
+                                        {(page.impressionShare * 100).toFixed(0)}% impr. · {page.clicks} clicks · pos {page.position.toFixed(1)}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+);
+
+const SitemapValidationSection: React.FC<{ report: SitemapValidationReport }> = ({ report }) => (
+    <div className="space-y-4 text-gray-300">
+        <p className="text-sm text-gray-400">
+            Checked {report.sitemapsChecked} sitemap{report.sitemapsChecked === 1 ? '' : 's'} and {report.urlsChecked.toLocaleString()} URLs from <span className="break-all">{report.rootSitemap}</span>.
+            {report.sitemapsNotChecked > 0 && ` ${report.sitemapsNotChecked} more child sitemaps were not fetched once the URL sample was full.`}
+        </p>
+        {report.issues.length === 0 ? (
+            <p className="text-sm text-green-300">No protocol or hygiene problems found.</p>
+        ) : (
+            <ul className="space-y-2">
+                {report.issues.map((issue, index) => (
+                    <li key={index} className="bg-gray-950/50 p-3 rounded-md border border-gray-700">
+                        <div className="flex items-start justify-between gap-3">
+                            <div className="flex-1 min-w-0">
+                                {issue.sitemap && <p className="text-xs text-gray-500 break-all mb-1">{issue.sitemap}</p>}
+                                <p className="text-sm">{issue.message}</p>
+                            </div>
+                            <span className={`text-xs font-semibold uppercase px-2 py-1 rounded-full shrink-0 ${issue.severity === 'error' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}>
+                                {issue.severity}{issue.count > 1 && ` · ${issue.count.toLocaleString()}`}
+                            </span>
+                        </div>
+                        {issue.examples.length > 0 && !(issue.examples.length === 1 && issue.examples[0] === issue.sitemap) && (
+                            <ul className="mt-2 space-y-0.5 text-xs text-gray-400 font-mono">
+                                {issue.examples.map(example => <li key={example} className="break-all">{example}</li>)}
+                                {issue.count > issue.examples.length && <li className="text-gray-600">…and {(issue.count - issue.examples.length).toLocaleString()} more</li>}
+                            </ul>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+const HreflangSection: React.FC<{ report: HreflangReport }> = ({ report }) => (
+    <div className="space-y-4 text-gray-300">
+        <p className="text-sm text-gray-400">
+            {report.urlsWithHreflang.toLocaleString()} URLs declare alternates ({report.sources.sitemap.toLocaleString()} annotations in the sitemap, {report.sources.page.toLocaleString()} on crawled pages), forming {report.clusters.toLocaleString()} cluster{report.clusters === 1 ? '' : 's'}.
+            {' '}{report.targetsChecked.toLocaleString()} alternate URLs had their status checked; return links are checked across the whole sitemap.
+        </p>
+        <div className="flex flex-wrap gap-2">
+            {report.languages.map(lang => (
+                <span key={lang} className="text-xs bg-gray-800 text-gray-300 px-2 py-1 rounded-full font-mono">{lang}</span>
+            ))}
+        </div>
+        {report.issues.length === 0 ? (
+            <p className="text-sm text-green-300">Every cluster is valid: codes, return links, x-default and targets all check out.</p>
+        ) : (
+            <ul className="space-y-2">
+                {report.issues.map(issue => (
+                    <li key={issue.type} className="bg-gray-950/50 p-3 rounded-md border border-gray-700">
+                        <div className="flex items-start justify-between gap-3">
+                            <p className="text-sm flex-1 min-w-0">{issue.message}</p>
+                            <span className={`text-xs font-semibold uppercase px-2 py-1 rounded-full shrink-0 ${issue.severity === 'error' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}>
+                                {issue.severity}{issue.count > 1 && ` · ${issue.count.toLocaleString()}`}
+                            </span>
+                        </div>
+                        <ul className="mt-2 space-y-0.5 text-xs text-gray-400 font-mono">
+                            {issue.examples.map(example => <li key={example} className="break-all">{example}</li>)}
+                            {issue.count > issue.examples.length && <li className="text-gray-600">…and {(issue.count - issue.examples.length).toLocaleString()} more</li>}
+                        </ul>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+const StructuredDataSection: React.FC<{ report: StructuredDataReport }> = ({ report }) => {
+    const types = Object.entries(report.typeCounts).sort((a, b) => b[1] - a[1]);
+    return (
+        <div className="space-y-4 text-gray-300">
+            <p className="text-sm text-gray-400">
+                {report.pagesWithMarkup} of {report.pagesChecked} crawled pages carry JSON-LD, Microdata or RDFa, checked against Google's rich-result requirements.
+            </p>
+            {types.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {types.map(([type, count]) => (
+                        <span key={type} className="text-xs bg-gray-800 text-gray-300 px-2 py-1 rounded-full">{type} · {count}</span>
+                    ))}
+                </div>
+            )}
+            {report.pages.every(page => page.issues.length === 0 && page.opportunities.length === 0) ? (
+                <p className="text-sm text-green-300">No markup errors or missing rich-result opportunities found.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {report.pages.filter(page => page.issues.length > 0 || page.opportunities.length > 0).map(page => (
+                        <li key={page.url} className="bg-gray-950/50 p-3 rounded-md border border-gray-700">
+                            <p className="text-sm text-gray-200 break-all">{page.url}</p>
+                            {page.found.length > 0 && (
+                                <p className="text-xs text-gray-500 mt-0.5">Found: {page.found.map(f => `${f.type} (${f.format})`).join(', ')}</p>
+                            )}
+                            <ul className="mt-2 space-y-1 text-sm">
+                                {page.issues.map((issue, index) => (
+                                    <li key={index} className="flex items-start gap-2">
+                                        <span className={`text-xs font-semibold uppercase px-2 py-0.5 rounded-full shrink-0 ${issue.severity === 'error' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}>{issue.severity}</span>
+                                        <span className="text-gray-400">{issue.message}</span>
+                                    </li>
+                                ))}
+                                {page.opportunities.map(opportunity => (
+                                    <li key={opportunity.type} className="flex items-start gap-2">
+                                        <span className="text-xs font-semibold uppercase px-2 py-0.5 rounded-full shrink-0 bg-sky-500/20 text-sky-300">add</span>
+                                        <span className="text-gray-400"><span className="text-gray-200">{opportunity.type}</span>: {opportunity.reason}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 type PrioritizedItem = (ContentGap & { type: 'Content Gap' }) | (TopicCluster & { type: 'Topic Cluster' }) | (ZeroToOneInitiative & { type: 'Initiative' });
 
 const PriorityMatrix: React.FC<{ items: PrioritizedItem[] }> = ({ items }) => {
@@ -255,6 +429,16 @@ export const SitewideAuditDisplay: React.FC<SitewideAuditDisplayProps> = ({ audi
                 }>
                      <ContentGapsSection gaps={audit.contentGaps} />
                 </AccordionItem>
+                {audit.keywordCannibalization && audit.keywordCannibalization.issues.length > 0 && (
+                    <AccordionItem defaultOpen={false} title={
+                        <div className="flex items-center gap-4">
+                            <span className="text-purple-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg></span>
+                            <span>Keyword Cannibalization</span>
+                        </div>
+                    }>
+                        <KeywordCannibalizationSection report={audit.keywordCannibalization} />
+                    </AccordionItem>
+                )}
                 <AccordionItem defaultOpen={false} title={
                     <div className="flex items-center gap-4">
                         <span className="text-blue-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M12 6V3m0 18v-3M5.636 5.636l-1.414-1.414M19.778 19.778l-1.414-1.414M18.364 5.636l-1.414 1.414M4.222 19.778l1.414-1.414M12 12a6 6 0 110-12 6 6 0 010 12z" /></svg></span>
@@ -274,6 +458,51 @@ export const SitewideAuditDisplay: React.FC<SitewideAuditDisplayProps> = ({ audi
                 }>
                     <LocalBusinessAuditSection audit={audit.localBusinessAudit} />
                 </AccordionItem>
+                {audit.sitemapValidation && (
+                    <AccordionItem defaultOpen={false} title={
+                        <div className="flex items-center gap-4">
+                            <span className="text-yellow-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg></span>
+                            <div className="flex items-center gap-3">
+                                <span>Sitemap Validation</span>
+                                <span className="text-sm font-normal text-gray-400">
+                                    {audit.sitemapValidation.issues.length === 0 ? 'No issues' : `${audit.sitemapValidation.issues.length} issue${audit.sitemapValidation.issues.length === 1 ? '' : 's'}`}
+                                </span>
+                            </div>
+                        </div>
+                    }>
+                        <SitemapValidationSection report={audit.sitemapValidation} />
+                    </AccordionItem>
+                )}
+                {audit.structuredData && (
+                    <AccordionItem defaultOpen={false} title={
+                        <div className="flex items-center gap-4">
+                            <span className="text-sky-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" /></svg></span>
+                            <div className="flex items-center gap-3">
+                                <span>Structured Data</span>
+                                <span className="text-sm font-normal text-gray-400">
+                                    {audit.structuredData.pagesWithMarkup} of {audit.structuredData.pagesChecked} pages marked up
+                                </span>
+                            </div>
+                        </div>
+                    }>
+                        <StructuredDataSection report={audit.structuredData} />
+                    </AccordionItem>
+                )}
+                {audit.hreflang && (
+                    <AccordionItem defaultOpen={false} title={
+                        <div className="flex items-center gap-4">
+                            <span className="text-teal-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg></span>
+                            <div className="flex items-center gap-3">
+                                <span>International (hreflang)</span>
+                                <span className="text-sm font-normal text-gray-400">
+                                    {audit.hreflang.issues.length === 0 ? 'No issues' : `${audit.hreflang.issues.length} issue${audit.hreflang.issues.length === 1 ? '' : 's'}`}
+                                </span>
+                            </div>
+                        </div>
+                    }>
+                        <HreflangSection report={audit.hreflang} />
+                    </AccordionItem>
+                )}
                 <AccordionItem title={
                     <div className="flex items-center gap-4">
                         <span className="text-red-400"><svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg></span>
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import type { StrikingDistanceReport, StrikingDistanceEntry } from '../types';
+
+const CoverageBadge: React.FC<{ label: string; value: boolean | null }> = ({ label, value }) => {
+    const style = value === null
+        ? 'bg-gray-800 text-gray-500'
+        : value ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300';
+    const mark = value === null ? '?' : value ? '✓' : '✗';
+    return <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${style}`} title={value === null ? 'Page could not be fetched' : undefined}>{label} {mark}</span>;
+};
+
+type SortKey = 'impressions' | 'position';
+
+interface StrikingDistanceDisplayProps {
+    report: StrikingDistanceReport;
+}
+
+export const StrikingDistanceDisplay: React.FC<StrikingDistanceDisplayProps> = ({ report }) => {
+    const [sortKey, setSortKey] = useState<SortKey>('impressions');
+
+    const sortedEntries = useMemo(() => {
+        const compare: Record<SortKey, (a: StrikingDistanceEntry, b: StrikingDistanceEntry) => number> = {
+            impressions: (a, b) => b.impressions - a.impressions,
+            position: (a, b) => a.position - b.position,
+        };
+        return [...report.entries].sort(compare[sortKey]);
+    }, [report.entries, sortKey]);
+
+    const missingFromPage = report.entries.filter(e => e.inTitle === false && e.inH1 === false).length;
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-end gap-3 mb-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-200">Striking Distance Keywords</h2>
+                    <p className="text-sm text-gray-400">
+                        {report.entries.length} queries ranking {report.minPosition}–{report.maxPosition} from Google Search Console. {missingFromPage} are in neither the title nor the H1.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-500">Sort by</span>
+                    {(['impressions', 'position'] as SortKey[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => setSortKey(key)}
+                            className={`px-3 py-1 rounded-md capitalize transition-colors ${sortKey === key ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'}`}
+                        >
+                            {key}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-xs uppercase text-gray-500 border-b border-gray-700">
+                        <tr>
+                            <th className="py-2 pr-4">Query</th>
+                            <th className="py-2 pr-4">Page</th>
+                            <th className="py-2 pr-4 text-right">Position</th>
+                            <th className="py-2 pr-4 text-right">Impressions</th>
+                            <th className="py-2 pr-4 text-right">Clicks</th>
+                            <th className="py-2">On-Page</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedEntries.map((entry, index) => (
+                            <tr key={index} className="border-b border-gray-800 hover:bg-gray-800/30">
+                                <td className="py-2 pr-4 font-medium text-gray-200">{entry.query}</td>
+                                <td className="py-2 pr-4">
+                                    <a href={entry.page} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{entry.page}</a>
+                                </td>
+                                <td className="py-2 pr-4 text-right text-yellow-300">{entry.position.toFixed(1)}</td>
+                                <td className="py-2 pr-4 text-right">{entry.impressions.toLocaleString()}</td>
+                                <td className="py-2 pr-4 text-right">{entry.clicks.toLocaleString()}</td>
+                                <td className="py-2">
+                                    <div className="flex gap-1.5">
+                                        <CoverageBadge label="Title" value={entry.inTitle} />
+                                        <CoverageBadge label="H1" value={entry.inH1} />
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
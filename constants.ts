@@ -161,7 +161,7 @@ ${getExecutionAndQualityBlock()}
       "reason": "string (<25 words explaining the core strategic flaw)",
       "evidence": "string (A single, verifiable data point, e.g., 'Top 3 SERP results are interactive tools, while this is a static text page.' or a direct URL to a competitor.)",
       "suggestedHeadline": "string (A new, high-CTR headline that perfectly matches the corrected search intent)",
-      "action": "'update' | 'merge' | 'prune' | 'canonical' | 'refresh'",
+      "action": "'update' | 'canonical' | 'refresh'",
       "owner": "'content' | 'dev' | 'product'",
       "strategicGoal": "string (The title of the primary strategic action plan item from the <strategic_goals_context> that this page action contributes to. Must be an exact match.)"
     },
@@ -179,6 +179,7 @@ ${getExecutionAndQualityBlock()}
   - If a page is strong but needs tweaks, provide 'optimizationTasks'.
   - If a page has major flaws AND needs specific tweaks post-rewrite, provide both.
   - If a page seems outdated (e.g., "for 2023"), set rewriteDetails.action to 'refresh', source to 'decay', and reason to 'Content is likely outdated and needs a refresh for the current year.'
+  - Never recommend 'merge' or 'prune': duplicate and thin content are measured from the page text separately.
   </rules>
 </module>
 
@@ -211,21 +212,36 @@ ${getExecutionAndQualityBlock()}
 `;
 
 export const USER_PROMPT_TEMPLATE = `
-Analyze the following list of URLs based on the system instructions.
-
-List of URLs to Analyze:
-\${URL_LIST}
+Analyze the following pages based on the system instructions.
 
+Pages to Analyze (on-page signals extracted from each page's live HTML; base your findings on these facts, not on guesses from the URL). 'Sitemap lastmod' is the content age declared by the site: weigh stale pages towards a refresh:
+<pages>
+\${PAGES}
+</pages>
+\${GSC_PERFORMANCE}
 Return only the final, valid JSON object.
 `;
 
+export const GSC_PERFORMANCE_BLOCK_TEMPLATE = `
+<gsc_performance>
+Real Google Search Console data for the last 90 days, one page per line (url | clicks | impressions | ctr | average position).
+This is ground truth: prioritize pages by it, cite these numbers in 'evidence', and never contradict them. Pages not listed had no recorded search traffic.
+\${GSC_ROWS}
+</gsc_performance>
+`;
+
 export const SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE = `
 Analyze the user's sitemap and their competitors' sitemaps based on the system instructions.
 
 <sitemaps>
 <user_sitemap>
-\${USER_URL_LIST}
+<!-- Prioritized pages with on-page signals extracted from their live HTML, and the content age declared in the sitemap -->
+\${USER_PAGES}
 </user_sitemap>
+<internal_link_graph>
+<!-- Measured from the anchors on the crawled pages. Ground all architecture and internal linking advice in these facts. -->
+\${LINK_GRAPH}
+</internal_link_graph>
 <competitor_sitemaps>
 \${COMPETITOR_URL_LIST}
 </competitor_sitemaps>
@@ -247,7 +263,7 @@ Your output MUST be a single, valid JSON object and nothing else. No markdown, n
 </persona>
 
 <output_format>
-- The root of the JSON object must contain six keys: "strategicRoadmap", "technicalHealth", "contentGaps", "topicClusters", "siteArchitectureGraph", "localBusinessAudit", and "zeroToOneInitiatives".
+- The root of the JSON object must contain six keys: "strategicRoadmap", "technicalHealth", "contentGaps", "topicClusters", "localBusinessAudit", and "zeroToOneInitiatives".
 - Adhere strictly to the JSON schemas defined below.
 - CRITICAL RULE: The final output must be ONLY the JSON object. Do not wrap it in markdown backticks. The response must start with \`{\` and end with \`}\`.
 - **Escaping:** Within any JSON string value, all double quotes (\") MUST be escaped with a backslash (e.g., "a string with \\\"quotes\\\" in it").
@@ -265,7 +281,6 @@ ${getExecutionAndQualityBlock()}
     "technicalHealth": "object (using the 'technicalHealth' schema)",
     "contentGaps": "array (using the 'contentGaps' schema, 3-5 top gaps)",
     "topicClusters": "array (using the 'topicClusters' schema, 2-3 main clusters)",
-    "siteArchitectureGraph": "object (using the 'siteArchitectureGraph' schema)",
     "localBusinessAudit": "object (using the 'localBusinessAudit' schema)",
     "zeroToOneInitiatives": "array (using 'zeroToOneInitiative' schema, 1-2 top ideas)"
   }
@@ -301,7 +316,7 @@ ${getExecutionAndQualityBlock()}
 </module>
 
 <module name="technicalHealth">
-  <description>Infer potential technical SEO issues based on URL patterns and common sitewide problems.</description>
+  <description>Infer potential technical SEO issues based on URL patterns and common sitewide problems. The internal link graph covers only the sampled pages, and pages outside the sample may link to any of them: report pages not linked from other sampled pages, pages unreachable from the homepage through them and pages 4+ clicks deep as candidates for more internal links, citing the affected URLs, but never call them orphans.</description>
   <json_schema>
   { "status": "'good' | 'needs_improvement' | 'poor'", "summary": "string (A 1-2 sentence overview of the site's inferred technical health.)", "actionItems": [{ "item": "string (A specific, high-impact technical recommendation)", "priority": "'high' | 'medium' | 'low'" }] }
   </json_schema>
@@ -331,32 +346,18 @@ ${getExecutionAndQualityBlock()}
 </module>
 
 <module name="topicClusters">
-  <description>Analyze the user's sitemap to identify their main topic clusters. Provide a strategic internal linking plan to fortify the authority of each pillar page.</description>
+  <description>Analyze the user's sitemap to identify their main topic clusters. Provide a strategic internal linking plan to fortify the authority of each pillar page. Use the internal link graph: link from pages with high internal PageRank to pillars and supporting pages that have few inlinks or sit deep in the site, and never propose a link the graph shows already exists between two crawled pages.</description>
   <json_schema>
   { "clusterName": "string", "pillarPage": "string (full URL)", "supportingPages": ["string (full URLs)"], "fortificationPlan": [{ "linkFrom": "string (URL)", "linkTo": "string (URL)", "anchorText": "string", "reason": "string" }], "impact": "number (1-10)", "effort": "number (1-10)" }
   </json_schema>
 </module>
 
-<module name="siteArchitectureGraph">
-    <description>Generate a node-edge graph of the site's architecture based on the Topic Clusters analysis. This will be used for visualization.</description>
-    <json_schema>
-    { "nodes": [{ "id": "string (full URL)", "label": "string (A short, readable label for the page)", "type": "'pillar' | 'cluster' | 'orphan'", "cluster": "string (The clusterName this node belongs to)" }], "edges": [{ "source": "string (URL of source node)", "target": "string (URL of target node)" }] }
-    </json_schema>
-    <rules>
-      - Every page from the 'topicClusters' analysis MUST be represented as a node.
-      - Pillar pages MUST have type 'pillar'. Their supporting pages MUST have type 'cluster'.
-      - Any URLs from the input list that do not fit into a cluster should be included with type 'orphan'. Keep this list small (3-5 top orphans).
-      - Edges MUST connect supporting 'cluster' nodes to their 'pillar' node.
-      - Labels should be concise (e.g., "/blog/my-post" -> "My Post"). The root "/" should be "Homepage".
-    </rules>
-</module>
-
 </analysis_modules>
 <final_review>
 - Is the Strategic Roadmap not just a summary, but a true, prioritized action plan?
 - Have you directly compared the user to their competitors?
 - Are all prioritization scores (impact/effort) included?
-- Is the graph data well-structured?
+- Are your internal linking recommendations grounded in the measured link graph?
 - Is the JSON perfectly formed and valid?
 </final_review>
 </master_instructions>
@@ -464,7 +465,7 @@ Your output MUST be a single, valid JSON object and nothing else. No markdown, n
 - Prioritize actions based on the 'priority' and 'impact' scores from the provided analysis data.
 - For rewrites and optimizations, select the top 5 highest-priority pages from the 'pageActions' array.
 - For new content, select the top 5 highest-potential ideas from the 'keywords' and 'contentGaps' arrays.
-- For redirects, invent plausible, high-impact redirects based on the site's structure. For example, consolidating two weak blog posts into one strong one, or redirecting an old product page to a new one. Create up to 10 redirects.
+- For redirects, if 'sitewideAnalysis.keywordCannibalization' is present, its 'consolidations' are measured from real Search Console data: use them first, verbatim. Only then, invent plausible, high-impact redirects based on the site's structure. For example, consolidating two weak blog posts into one strong one, or redirecting an old product page to a new one. Create up to 10 redirects.
 - For each item, provide a concise 'reason' and a direct, command-style 'instruction' (e.g., "Rewrite this page to target 'X' intent," "Implement these technical fixes now," "Create a pillar page on 'Y' topic.").
 </persona>
 
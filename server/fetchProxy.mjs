@@ -0,0 +1,213 @@
+// Self-hosted fetch proxy for the browser app. Runs inside the Vite dev/preview
+// server (see vite.config.ts) or standalone on 127.0.0.1: `npm run proxy` (PORT defaults
+// to 8787, ALLOWED_ORIGINS to the local dev and preview servers).
+//
+//   GET /__orchestrator/fetch?url=<target>  The target's response, redirects followed.
+//                                            X-Final-URL carries the URL after redirects.
+//   GET /__orchestrator/hop?url=<target>    One request without following redirects, as
+//                                            JSON: { status, location, xRobotsTag }.
+//
+// Failures of the proxy itself, bodies over 64 MB included, are answered with 502
+// (403 when refused) and an X-Proxy-Error header.
+//
+// Only clients on the same machine may use it, and only the app's own origins get
+// CORS access. Every hop, redirects included, is refused if its host is or resolves
+// to a loopback, private or link-local address.
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import { pathToFileURL } from 'node:url';
+
+const FETCH_PATH = '/__orchestrator/fetch';
+const HOP_PATH = '/__orchestrator/hop';
+const TIMEOUT_MS = 20000;
+const MAX_REDIRECTS = 10;
+// Decoded bytes held per response: room for a 50 MB sitemap, not for a decompression bomb
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (compatible; OrchestratorAI/1.0)';
+const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+
+// Forwarded from the upstream response; everything else (cookies, encodings) is dropped
+const FORWARDED_HEADERS = ['content-type', 'last-modified', 'x-robots-tag', 'link'];
+const EXPOSED_HEADERS = 'X-Final-URL, X-Proxy-Error, X-Robots-Tag, Content-Type, Last-Modified, Link';
+
+// Addresses the proxy must never connect to: this machine and its networks.
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 rules.
+const BLOCKED = new net.BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address, prefix, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address, prefix, 'ipv6'));
+
+const isBlockedAddress = (address) => {
+    const family = net.isIP(address);
+    return family === 0 || BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const isLoopbackClient = (address) =>
+    !!address && (address === '::1' || /^(::ffff:)?127\./.test(address));
+
+// Used for every connection, so a name that resolves to a private address is refused
+// on the address actually connected to, not on an earlier lookup
+const publicOnlyLookup = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+        if (addresses.some(({ address }) => isBlockedAddress(address))) {
+            return callback(new Error(`${hostname} resolves to a private network address and cannot be fetched`));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const checkTarget = (url) => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Only http(s) URLs can be fetched');
+    // IP literals never reach the lookup, so they are checked here
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isBlockedAddress(host)) throw new Error('Private network addresses cannot be fetched');
+    return url;
+};
+
+const parseTarget = (requestUrl) => {
+    const target = new URL(requestUrl, 'http://proxy.local').searchParams.get('url');
+    if (!target) throw new Error('Missing url parameter');
+    return checkTarget(new URL(target));
+};
+
+// One request, redirects not followed
+const requestUpstream = (url, signal) => new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, {
+        headers: { 'User-Agent': USER_AGENT, 'Accept': '*/*', 'Accept-Encoding': 'gzip, deflate, br' },
+        lookup: publicOnlyLookup,
+        signal,
+    }, resolve);
+    req.on('error', reject);
+});
+
+const readBody = async (upstream) => {
+    const encoding = (upstream.headers['content-encoding'] || '').toLowerCase();
+    const decoder = encoding === 'gzip' ? zlib.createGunzip()
+        : encoding === 'deflate' ? zlib.createInflate()
+        : encoding === 'br' ? zlib.createBrotliDecompress()
+        : null;
+    const stream = decoder ? upstream.pipe(decoder) : upstream;
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of stream) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            upstream.destroy();
+            throw new Error(`Response body exceeds ${MAX_BODY_BYTES / 1024 / 1024} MB`);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+// Redirects are followed by hand so every hop goes through checkTarget and the lookup
+const followRedirects = async (url, signal) => {
+    for (let hop = 0; ; hop++) {
+        const upstream = await requestUpstream(url, signal);
+        const location = upstream.headers.location;
+        if (upstream.statusCode < 300 || upstream.statusCode >= 400 || !location) return { upstream, url };
+        upstream.resume();
+        if (hop >= MAX_REDIRECTS) throw new Error(`Stopped after ${MAX_REDIRECTS} redirects`);
+        url = checkTarget(new URL(location, url));
+    }
+};
+
+const corsHeaders = (req, allowedOrigins) => {
+    const origin = req.headers.origin;
+    if (!origin || !allowedOrigins.includes(origin)) return {};
+    return { 'Access-Control-Allow-Origin': origin, 'Access-Control-Expose-Headers': EXPOSED_HEADERS, 'Vary': 'Origin' };
+};
+
+const sendError = (res, cors, message, status = 502) => {
+    // Header values must be single-line ASCII
+    const headerValue = String(message).replace(/[^\x20-\x7e]+/g, ' ').slice(0, 500);
+    res.writeHead(status, { ...cors, 'Content-Type': 'text/plain', 'X-Proxy-Error': headerValue });
+    res.end(message);
+};
+
+const handleFetch = async (req, res, cors, signal) => {
+    const { upstream, url } = await followRedirects(parseTarget(req.url), signal);
+    const headers = { ...cors, 'X-Final-URL': url.href };
+    for (const name of FORWARDED_HEADERS) {
+        const value = upstream.headers[name];
+        if (value) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    // Send the plain bytes; the upstream Content-Encoding is decoded above
+    const body = await readBody(upstream);
+    res.writeHead(upstream.statusCode, headers);
+    res.end(body);
+};
+
+const handleHop = async (req, res, cors, signal) => {
+    const upstream = await requestUpstream(parseTarget(req.url), signal);
+    upstream.resume();
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+        status: upstream.statusCode,
+        location: upstream.headers.location ?? null,
+        xRobotsTag: upstream.headers['x-robots-tag'] ?? null,
+    }));
+};
+
+/**
+ * Connect-style middleware, so Vite's dev and preview servers can mount the proxy.
+ * allowedOrigins are the cross-origin pages allowed to read its responses; the
+ * Vite servers serve the app from the same origin and need none.
+ */
+export const createFetchProxyMiddleware = ({ allowedOrigins = [] } = {}) => async (req, res, next) => {
+    const path = (req.url || '').split('?')[0];
+    const handler = path === FETCH_PATH ? handleFetch : path === HOP_PATH ? handleHop : null;
+    if (!handler) return next?.();
+
+    const cors = corsHeaders(req, allowedOrigins);
+    // The dev server listens on every interface; the proxy only answers this machine,
+    // and only pages it serves itself or the allowed origins
+    const origin = req.headers.origin;
+    const sameOrigin = !!origin && origin.replace(/^https?:\/\//, '') === req.headers.host;
+    if (!isLoopbackClient(req.socket.remoteAddress) || (origin && !sameOrigin && !cors['Access-Control-Allow-Origin'])) {
+        return sendError(res, cors, 'The fetch proxy only serves the app on this machine', 403);
+    }
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, { ...cors, 'Access-Control-Allow-Methods': 'GET' });
+        return res.end();
+    }
+    if (req.method !== 'GET') {
+        res.writeHead(405, cors);
+        return res.end();
+    }
+
+    const signal = AbortSignal.timeout(TIMEOUT_MS);
+    try {
+        await handler(req, res, cors, signal);
+    } catch (e) {
+        const message = signal.aborted ? `Timed out after ${TIMEOUT_MS / 1000}s` : e?.cause?.message || e?.message || 'Fetch failed';
+        if (!res.headersSent) sendError(res, cors, message);
+        else res.end();
+    }
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = Number(process.env.PORT) || 8787;
+    const host = '127.0.0.1';
+    const allowedOrigins = process.env.ALLOWED_ORIGINS
+        ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+        : DEFAULT_ALLOWED_ORIGINS;
+    const middleware = createFetchProxyMiddleware({ allowedOrigins });
+    http.createServer((req, res) => middleware(req, res, () => {
+        res.writeHead(404);
+        res.end();
+    })).listen(port, host, () => {
+        console.log(`Fetch proxy listening on http://${host}:${port} for ${allowedOrigins.join(', ')}`);
+    });
+}
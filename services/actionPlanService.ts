@@ -21,15 +21,23 @@ const collateTasks = (sitewideAnalysis: SitewideAnalysis, seoAnalysis: SeoAnalys
             title: item.item,
             type: 'technical',
             priority: item.priority,
-            context: `This is a site-wide technical SEO fix. The issue identified was: "${sitewideAnalysis.technicalHealth.summary}". The specific item to address is: "${item.item}".`
+            context: `This is a site-wide technical SEO fix. The issue identified was: "${sitewideAnalysis.technicalHealth.summary}". The specific item to address is: "${item.item}".${item.evidence ? ` Observed evidence: ${item.evidence.join('; ')}.` : ''}`
         });
     });
 
     // 2. Page-Level Actions (Content Updates/Rewrites)
+    const defaultTitles: Partial<Record<PageAction['source'], string>> = {
+        decay: 'Refresh decaying page',
+        ctr: 'Rewrite search snippet',
+        keyword: 'Push striking-distance keywords',
+        similarity: 'Consolidate duplicate or thin page',
+        indexability: 'Fix canonical signals',
+    };
     seoAnalysis.pageActions.forEach(action => {
-        const title = action.rewriteDetails?.suggestedHeadline || `Optimize: ${action.url}`;
+        const title = action.rewriteDetails?.suggestedHeadline || `${defaultTitles[action.source] ?? 'Optimize'}: ${action.url}`;
         tasks.push({
-            id: slugify(action.url),
+            // Data-driven actions can target the same URL as an AI recommendation, so keep their ids apart
+            id: slugify(action.source === 'analysis' ? action.url : `${action.source}-${action.url}`),
             title: title,
             type: 'content_update',
             priority: action.priority,
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockBrowser, mockDb, resetMockSupabase } from '../test/mockSupabaseClient';
+import { hashApiKey, pullAiPreferences, pushAiPreferences } from './aiConfigSync';
+
+vi.mock('./supabaseClient', async () => {
+    const { mockBrowser } = await import('../test/mockSupabaseClient');
+    return { supabase: mockBrowser.client, isSupabaseAvailable: () => true };
+});
+
+const USER = { id: '00000000-0000-4000-8000-000000000002', email: 'seo@example.com' };
+
+describe('aiConfigSync', () => {
+    beforeEach(async () => {
+        await resetMockSupabase();
+        mockBrowser.completeSignIn(USER);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('syncs provider, model and a fingerprint of the key, never the key itself', async () => {
+        await pushAiPreferences({ provider: 'openai', apiKey: 'sk-secret', model: 'gpt-4o' });
+
+        expect(JSON.stringify(mockDb.tables.ai_configurations)).not.toContain('sk-secret');
+        expect(await pullAiPreferences()).toEqual({
+            provider: 'openai',
+            model: 'gpt-4o',
+            apiKeyHash: await hashApiKey('sk-secret'),
+        });
+    });
+
+    it('updates the stored configuration instead of adding another', async () => {
+        await pushAiPreferences({ provider: 'openai', apiKey: 'sk-first', model: 'gpt-4o' });
+        await pushAiPreferences({ provider: 'anthropic', apiKey: 'sk-second', model: '' });
+
+        expect(mockDb.tables.ai_configurations).toHaveLength(1);
+        expect(await pullAiPreferences()).toEqual({ provider: 'anthropic', model: undefined, apiKeyHash: await hashApiKey('sk-second') });
+    });
+
+    it('has nothing to pull for anonymous sessions', async () => {
+        await pushAiPreferences({ provider: 'openai', apiKey: 'sk-secret', model: 'gpt-4o' });
+        await mockBrowser.client.auth.signOut();
+
+        expect(await pullAiPreferences()).toBeNull();
+    });
+
+    it('skips the sync where crypto.subtle is unavailable', async () => {
+        vi.stubGlobal('crypto', {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        await expect(hashApiKey('sk-secret')).rejects.toThrow(/secure context/);
+        await expect(pushAiPreferences({ provider: 'openai', apiKey: 'sk-secret', model: 'gpt-4o' })).resolves.toBeUndefined();
+        expect(mockDb.tables.ai_configurations).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import type { AiConfig, AiProvider } from '../types';
+import { supabase } from './supabaseClient';
+
+const AI_CONFIG_TABLE = 'ai_configurations';
+
+export interface SyncedAiPreferences {
+    provider: AiProvider;
+    model?: string;
+    apiKeyHash: string;
+}
+
+/**
+ * SHA-256 fingerprint of an API key. Lets another device tell whether a pasted
+ * key matches the synced one without the key itself ever leaving the browser.
+ * Rejects outside secure contexts (e.g. the dev server over plain HTTP on the
+ * LAN), where browsers do not provide crypto.subtle.
+ */
+export const hashApiKey = async (apiKey: string): Promise<string> => {
+    if (!globalThis.crypto?.subtle) {
+        throw new Error('Hashing the API key needs a secure context (HTTPS or localhost)');
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+    return Array.from(new Uint8Array(digest))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+};
+
+/**
+ * Fetches the signed-in user's synced provider/model, or null if none is stored.
+ */
+export const pullAiPreferences = async (): Promise<SyncedAiPreferences | null> => {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+        .from(AI_CONFIG_TABLE)
+        .select('provider, model, api_key_hash')
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.warn('[AiConfigSync] Failed to load synced AI configuration:', error.message);
+        return null;
+    }
+    if (!data) return null;
+
+    return {
+        provider: data.provider as AiProvider,
+        model: data.model || undefined,
+        apiKeyHash: data.api_key_hash,
+    };
+};
+
+/**
+ * Stores the selected provider/model and a hash of the key for the signed-in user.
+ * The raw API key is never sent.
+ */
+export const pushAiPreferences = async (config: AiConfig): Promise<void> => {
+    if (!supabase) return;
+
+    let apiKeyHash: string;
+    try {
+        apiKeyHash = await hashApiKey(config.apiKey);
+    } catch (e) {
+        console.warn('[AiConfigSync] Skipping AI configuration sync:', e instanceof Error ? e.message : e);
+        return;
+    }
+
+    const row = {
+        provider: config.provider,
+        model: config.model || '',
+        api_key_hash: apiKeyHash,
+        updated_at: new Date().toISOString(),
+    };
+
+    const { data: existing, error: selectError } = await supabase
+        .from(AI_CONFIG_TABLE)
+        .select('id')
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (selectError) {
+        console.warn('[AiConfigSync] Failed to read existing AI configuration:', selectError.message);
+        return;
+    }
+
+    const { error } = existing
+        ? await supabase.from(AI_CONFIG_TABLE).update(row).eq('id', existing.id)
+        : await supabase.from(AI_CONFIG_TABLE).insert(row);
+
+    if (error) {
+        console.warn('[AiConfigSync] Failed to sync AI configuration:', error.message);
+    }
+};
@@ -3,8 +3,9 @@
 import { GoogleGenAI } from "@google/genai";
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
-import { getSystemInstruction, USER_PROMPT_TEMPLATE, getSitewideAuditSystemInstruction, SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE, IMPLEMENTATION_GUIDE_SYSTEM_INSTRUCTION, IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE, COMPETITOR_DISCOVERY_SYSTEM_INSTRUCTION, EXECUTIVE_SUMMARY_SYSTEM_INSTRUCTION, EXECUTIVE_SUMMARY_USER_PROMPT_TEMPLATE, BATCH_IMPLEMENTATION_GUIDE_SYSTEM_INSTRUCTION, BATCH_IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE } from '../constants';
-import type { SeoAnalysisResult, GroundingSource, AnalysisType, SnippetOpportunity, SerpInsights, SitewideAnalysis, PagePerformance, AiConfig, ActionItem, ExecutiveSummary } from "../types";
+import { getSystemInstruction, USER_PROMPT_TEMPLATE, getSitewideAuditSystemInstruction, SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE, IMPLEMENTATION_GUIDE_SYSTEM_INSTRUCTION, IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE, COMPETITOR_DISCOVERY_SYSTEM_INSTRUCTION, EXECUTIVE_SUMMARY_SYSTEM_INSTRUCTION, EXECUTIVE_SUMMARY_USER_PROMPT_TEMPLATE, BATCH_IMPLEMENTATION_GUIDE_SYSTEM_INSTRUCTION, BATCH_IMPLEMENTATION_GUIDE_USER_PROMPT_TEMPLATE, GSC_PERFORMANCE_BLOCK_TEMPLATE } from '../constants';
+import type { SeoAnalysisResult, GroundingSource, AnalysisType, SnippetOpportunity, SerpInsights, SitewideAnalysis, PagePerformance, AiConfig, ActionItem, ExecutiveSummary, SearchPerformanceMetrics, PageSnapshot, GraphData } from "../types";
+import { toExecutiveSummaryRedirects } from './cannibalizationService';
 
 // --- AI HARDENING: RETRY LOGIC & ROBUST PARSING ---
 const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> => {
@@ -102,7 +103,6 @@ const validateSitewideAnalysis = (data: any): data is SitewideAnalysis => (
     'technicalHealth' in data &&
     'contentGaps' in data &&
     'topicClusters' in data &&
-    'siteArchitectureGraph' in data &&
     'localBusinessAudit' in data &&
     'zeroToOneInitiatives' in data &&
     Array.isArray(data.contentGaps) &&
@@ -142,6 +142,107 @@ const validateExecutiveSummary = (data: any): data is ExecutiveSummary => {
 };
 
 
+// --- GSC GROUND TRUTH ---
+const normalizeUrlKey = (url: string): string => url.trim().replace(/\/+$/, '').toLowerCase();
+
+const buildGscPerformanceBlock = (pageMetrics: Record<string, SearchPerformanceMetrics>): string => {
+    const rows = Object.entries(pageMetrics)
+        .sort(([, a], [, b]) => b.clicks - a.clicks)
+        .map(([url, m]) => `${url} | ${m.clicks} | ${m.impressions} | ${(m.ctr * 100).toFixed(2)}% | ${m.position.toFixed(1)}`);
+    if (rows.length === 0) return '';
+    return GSC_PERFORMANCE_BLOCK_TEMPLATE.replace('${GSC_ROWS}', rows.join('\n'));
+};
+
+const attachPageMetrics = (analysis: SeoAnalysisResult, pageMetrics: Record<string, SearchPerformanceMetrics>): SeoAnalysisResult => {
+    const metricsByUrl = new Map(Object.entries(pageMetrics).map(([url, m]) => [normalizeUrlKey(url), m]));
+    return {
+        ...analysis,
+        pageActions: analysis.pageActions.map(action => {
+            const performance = metricsByUrl.get(normalizeUrlKey(action.url));
+            return performance ? { ...action, performance } : action;
+        }),
+    };
+};
+
+
+// --- ON-PAGE SIGNALS ---
+const MAX_HEADINGS_PER_LEVEL = 8;
+
+const formatContentAge = (lastmod: string | undefined): string => {
+    const time = lastmod ? Date.parse(lastmod) : NaN;
+    if (isNaN(time)) return '(not declared)';
+    const days = Math.max(0, Math.round((Date.now() - time) / (24 * 60 * 60 * 1000)));
+    return `${new Date(time).toISOString().split('T')[0]} (${days} days ago)`;
+};
+
+/**
+ * Render page snapshots as a compact, line-oriented block the model can cite from.
+ */
+const formatPageSnapshots = (pages: PageSnapshot[]): string => pages.map(page => {
+    if (page.status === null) {
+        return `<page url="${page.url}">\nCould not be fetched: ${page.fetchError || 'unknown error'}\n</page>`;
+    }
+    const headingLine = (level: keyof PageSnapshot['headings']) => {
+        const items = page.headings[level];
+        if (items.length === 0) return `${level.toUpperCase()}: (none)`;
+        const more = items.length > MAX_HEADINGS_PER_LEVEL ? ` (+${items.length - MAX_HEADINGS_PER_LEVEL} more)` : '';
+        return `${level.toUpperCase()}: ${items.slice(0, MAX_HEADINGS_PER_LEVEL).join(' | ')}${more}`;
+    };
+    const canonical = page.canonical
+        ? (page.canonical.replace(/\/+$/, '') === page.url.replace(/\/+$/, '') ? 'self' : page.canonical)
+        : '(none)';
+    const structuredData = [...new Set(page.structuredData.flatMap(item => item.types.map(type => `${type} (${item.format})`)))];
+
+    return [
+        `<page url="${page.url}">`,
+        `Title (${page.title.length} chars): ${page.title || '(missing)'}`,
+        `Meta description (${page.metaDescription.length} chars): ${page.metaDescription || '(missing)'}`,
+        headingLine('h1'),
+        headingLine('h2'),
+        headingLine('h3'),
+        `Canonical: ${canonical} | Meta robots: ${page.metaRobots || '(none)'} | Hreflang: ${page.hreflang.map(h => h.lang).join(', ') || '(none)'}`,
+        `Words: ${page.wordCount} | Internal links: ${page.internalLinks.length} | External links: ${page.externalLinks.length} | Structured data: ${structuredData.join(', ') || '(none)'}`,
+        `Sitemap lastmod: ${formatContentAge(page.sitemapLastmod)}`,
+        `</page>`,
+    ].join('\n');
+}).join('\n');
+
+
+// --- INTERNAL LINK GRAPH ---
+const DEEP_PAGE_DEPTH = 4;
+const MAX_LISTED_PAGES = 15;
+
+/**
+ * Summarize the measured link graph: the facts the audit must ground its
+ * architecture and internal linking advice in.
+ */
+const formatLinkGraph = (graph: GraphData): string => {
+    const nodes = graph.nodes;
+    if (nodes.length === 0) return 'No pages could be fetched, so no link graph is available.';
+    const list = (items: typeof nodes) => items.length === 0
+        ? '(none)'
+        : items.slice(0, MAX_LISTED_PAGES).map(n => n.id).join('\n') + (items.length > MAX_LISTED_PAGES ? `\n(+${items.length - MAX_LISTED_PAGES} more)` : '');
+    const hasHomepage = nodes.some(n => n.depth === 0);
+    const unlinked = nodes.filter(n => n.inlinks === 0 && n.depth !== 0);
+    const unreachable = nodes.filter(n => n.depth === null && n.inlinks !== 0);
+    const deep = nodes.filter(n => n.depth != null && n.depth >= DEEP_PAGE_DEPTH);
+    const rows = [...nodes]
+        .sort((a, b) => (b.pageRank ?? 0) - (a.pageRank ?? 0))
+        .map(n => `${n.id} | ${n.depth ?? 'unreachable'} | ${n.inlinks ?? 0} | ${(n.pageRank ?? 0).toFixed(2)}`);
+
+    return [
+        `Crawled pages: ${nodes.length} | Internal links between them: ${graph.linkCount ?? 0}${hasHomepage ? '' : ' | Homepage not crawled, so click depth is unknown'}`,
+        `Not linked from other sampled pages (pages outside the sample may still link to them, so these are not confirmed orphans):\n${list(unlinked)}`,
+        ...(hasHomepage ? [
+            `Linked, but unreachable from the homepage:\n${list(unreachable)}`,
+            `${DEEP_PAGE_DEPTH}+ clicks from the homepage:\n${list(deep)}`,
+        ] : []),
+        `URL | Click depth | Inlinks | Internal PageRank (1.00 = average)`,
+        ...rows,
+    ].join('\n');
+};
+
+
 // --- UNIVERSAL AI CALL FUNCTION ---
 interface CallAiOptions {
     useGoogleSearch?: boolean;
@@ -251,11 +352,16 @@ export const discoverCompetitors = async (aiConfig: AiConfig, userUrl: string):
 };
 
 // --- REFACTORED SERVICE FUNCTIONS ---
-export const generateSitewideAudit = async (aiConfig: AiConfig, urls: string[], competitorUrls: string[], analysisType: AnalysisType, location?: string, onLog: (message: string) => void = () => {}): Promise<SitewideAnalysis> => {
+/**
+ * The site architecture graph is measured, not generated: the model receives
+ * the link graph as input and the measured graph is returned in its place.
+ */
+export const generateSitewideAudit = async (aiConfig: AiConfig, pages: PageSnapshot[], linkGraph: GraphData, competitorUrls: string[], analysisType: AnalysisType, location?: string, onLog: (message: string) => void = () => {}): Promise<SitewideAnalysis> => {
     return withRetry(async () => {
        onLog('Analyzing competitor strengths...');
        const userPrompt = SITEWIDE_AUDIT_USER_PROMPT_TEMPLATE
-           .replace('${USER_URL_LIST}', urls.join('\n'))
+           .replace('${USER_PAGES}', formatPageSnapshots(pages))
+           .replace('${LINK_GRAPH}', formatLinkGraph(linkGraph))
            .replace('${COMPETITOR_URL_LIST}', competitorUrls.join('\n'));
        const systemInstruction = getSitewideAuditSystemInstruction(aiConfig.provider, analysisType, location);
        
@@ -265,15 +371,16 @@ export const generateSitewideAudit = async (aiConfig: AiConfig, urls: string[],
        onLog(`Received response from ${aiConfig.provider}. Validating structure...`);
        const result = robustJsonParse(text, validateSitewideAnalysis, 'SitewideAnalysis');
        onLog('Validated sitewide audit.');
-       return result;
+       return { ...result, siteArchitectureGraph: linkGraph };
    });
 };
 
-export const generateSeoAnalysis = async (aiConfig: AiConfig, urls: string[], analysisType: AnalysisType, location: string | undefined, strategicGoals: string[], onLog: (message: string) => void = () => {}): Promise<{ analysis: SeoAnalysisResult, sources: GroundingSource[] }> => {
+export const generateSeoAnalysis = async (aiConfig: AiConfig, pages: PageSnapshot[], analysisType: AnalysisType, location: string | undefined, strategicGoals: string[], onLog: (message: string) => void = () => {}, pageMetrics: Record<string, SearchPerformanceMetrics> = {}): Promise<{ analysis: SeoAnalysisResult, sources: GroundingSource[] }> => {
     return withRetry(async () => {
         onLog('Analyzing individual page strengths and weaknesses...');
         const userPrompt = USER_PROMPT_TEMPLATE
-            .replace('${URL_LIST}', urls.join('\n'));
+            .replace('${PAGES}', formatPageSnapshots(pages))
+            .replace('${GSC_PERFORMANCE}', buildGscPerformanceBlock(pageMetrics));
         const systemInstruction = getSystemInstruction(aiConfig.provider, analysisType, location, strategicGoals);
         
         onLog(`Sending request to ${aiConfig.provider} with Google Search grounding...`);
@@ -282,7 +389,7 @@ export const generateSeoAnalysis = async (aiConfig: AiConfig, urls: string[], an
         onLog(`Received response from ${aiConfig.provider}. Extracting sources and validating structure...`);
         const analysis = robustJsonParse(text, validateSeoAnalysisResult, 'SeoAnalysisResult');
         onLog('Validated page-level analysis.');
-        return { analysis, sources: sources || [] };
+        return { analysis: attachPageMetrics(analysis, pageMetrics), sources: sources || [] };
     });
 };
 
@@ -358,6 +465,15 @@ export const generateExecutiveSummary = async (
             { responseMimeType: 'application/json' }
         );
         
-        return robustJsonParse(text, validateExecutiveSummary, 'ExecutiveSummary');
+        const summary = robustJsonParse(text, validateExecutiveSummary, 'ExecutiveSummary');
+
+        // Measured cannibalization fixes take precedence over AI-suggested redirects for the same URL
+        const cannibalization = sitewideAnalysis.keywordCannibalization;
+        if (cannibalization && cannibalization.consolidations.length > 0) {
+            const measured = toExecutiveSummaryRedirects(cannibalization);
+            const measuredFrom = new Set(measured.map(r => r.from));
+            summary.redirects = [...measured, ...summary.redirects.filter(r => !measuredFrom.has(r.from))];
+        }
+        return summary;
     });
 };
\ No newline at end of file
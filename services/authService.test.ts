@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockBrowser, mockDb, resetMockSupabase } from '../test/mockSupabaseClient';
+import { getCurrentUser, onAuthChange, sendMagicLink, signOut } from './authService';
+import { historyRepository } from './historyRepository';
+import { getSessionId } from './sessionIdentity';
+import type { HistoricalAnalysis } from '../types';
+
+vi.mock('./supabaseClient', async () => {
+    const { mockBrowser } = await import('../test/mockSupabaseClient');
+    return { supabase: mockBrowser.client, isSupabaseAvailable: () => true };
+});
+
+const USER = { id: '00000000-0000-4000-8000-000000000001', email: 'seo@example.com' };
+
+const saveAnonymously = (sitemapUrl: string) => historyRepository.save({
+    date: '1/1/2026, 12:00:00 PM',
+    sitemapUrl,
+    competitorSitemaps: [],
+    sitewideAnalysis: {} as HistoricalAnalysis['sitewideAnalysis'],
+    analysis: {} as HistoricalAnalysis['analysis'],
+    analysisType: 'global',
+});
+
+// Resolves with the user passed to onAuthChange's callback for the given sign-in
+const nextAuthChange = () => new Promise<Awaited<ReturnType<typeof getCurrentUser>>>(resolve => {
+    let initial = true;
+    const unsubscribe = onAuthChange(user => {
+        if (initial) {
+            initial = false;
+            return;
+        }
+        unsubscribe();
+        resolve(user);
+    });
+});
+
+describe('authService', () => {
+    beforeEach(async () => {
+        await resetMockSupabase();
+        vi.stubGlobal('window', { location: { origin: 'https://app.example.com' } });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('sends a magic link that returns to the app', async () => {
+        await sendMagicLink('  seo@example.com ');
+        expect(mockBrowser.sentMagicLinks).toEqual([{ email: 'seo@example.com', redirectTo: 'https://app.example.com' }]);
+    });
+
+    it('claims anonymous rows for the user on sign-in, before reporting the sign-in', async () => {
+        await saveAnonymously('https://example.com/sitemap.xml');
+        const signedIn = nextAuthChange();
+        await new Promise(resolve => setTimeout(resolve, 0)); // Let the initial session through
+
+        mockBrowser.completeSignIn(USER);
+        expect(await signedIn).toEqual(USER);
+
+        expect(mockDb.tables.analysis_history).toEqual([
+            expect.objectContaining({ user_id: USER.id, session_id: null }),
+        ]);
+        expect((await historyRepository.list()).items.map(h => h.sitemapUrl)).toEqual(['https://example.com/sitemap.xml']);
+    });
+
+    it('leaves rows from other sessions and other users alone when claiming', async () => {
+        mockDb.tables.analysis_history.push(
+            { id: 'other-session', session_id: 'another-browser', user_id: null, created_at: '2026-01-01T00:00:00Z' },
+            { id: 'other-user', session_id: getSessionId(), user_id: 'someone-else', created_at: '2026-01-01T00:00:00Z' },
+        );
+        const signedIn = nextAuthChange();
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        mockBrowser.completeSignIn(USER);
+        await signedIn;
+
+        expect(mockDb.tables.analysis_history.map(row => row.user_id)).toEqual([null, 'someone-else']);
+    });
+
+    it('keeps signed-in history private to the account after sign-out', async () => {
+        mockBrowser.completeSignIn(USER);
+        await saveAnonymously('https://example.com/sitemap.xml');
+        expect(await getCurrentUser()).toEqual(USER);
+
+        await signOut();
+
+        expect(await getCurrentUser()).toBeNull();
+        expect((await historyRepository.list()).items).toEqual([]);
+    });
+});
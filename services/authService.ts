@@ -0,0 +1,79 @@
+import type { User } from '@supabase/supabase-js';
+import { supabase, isSupabaseAvailable } from './supabaseClient';
+import { claimAnonymousRows } from './sessionIdentity';
+
+export type AuthUser = Pick<User, 'id' | 'email'>;
+
+/**
+ * Whether sign-in is possible (Supabase must be configured)
+ */
+export const isAuthAvailable = (): boolean => isSupabaseAvailable();
+
+/**
+ * Sends a magic sign-in link to the given email address.
+ * The link returns the user to the current origin, where the session is picked up automatically.
+ */
+export const sendMagicLink = async (email: string): Promise<void> => {
+    if (!supabase) {
+        throw new Error('Sign-in is unavailable because Supabase is not configured.');
+    }
+    const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: window.location.origin },
+    });
+    if (error) {
+        throw new Error(`Failed to send sign-in link: ${error.message}`);
+    }
+};
+
+export const signOut = async (): Promise<void> => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+        console.warn('[Auth] Sign-out failed:', error.message);
+    }
+};
+
+/**
+ * Returns the signed-in user, or null for anonymous sessions.
+ */
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+    if (!supabase) return null;
+    const { data } = await supabase.auth.getSession();
+    const user = data.session?.user;
+    return user ? { id: user.id, email: user.email } : null;
+};
+
+/**
+ * Subscribes to sign-in/sign-out. On sign-in, rows created anonymously in this
+ * browser are claimed for the user before the callback fires.
+ * Returns an unsubscribe function.
+ */
+export const onAuthChange = (callback: (user: AuthUser | null) => void): (() => void) => {
+    if (!supabase) return () => {};
+    const client = supabase;
+
+    const { data } = client.auth.onAuthStateChange((event, session) => {
+        const user = session?.user ? { id: session.user.id, email: session.user.email } : null;
+
+        if (event === 'SIGNED_IN' && user) {
+            // Defer out of the auth callback; Supabase deadlocks if it is awaited here
+            setTimeout(async () => {
+                try {
+                    const claimed = await claimAnonymousRows(client);
+                    if (claimed > 0) console.log(`[Auth] Claimed ${claimed} anonymous rows`);
+                } catch (e) {
+                    console.warn('[Auth] Could not claim anonymous rows:', e);
+                }
+                callback(user);
+            }, 0);
+            return;
+        }
+
+        if (event === 'INITIAL_SESSION' || event === 'SIGNED_OUT') {
+            callback(user);
+        }
+    });
+
+    return () => data.subscription.unsubscribe();
+};
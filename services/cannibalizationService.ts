@@ -0,0 +1,157 @@
+import type {
+    GscAnalyticsDataset,
+    CannibalizationReport,
+    CannibalizationIssue,
+    CannibalizationConsolidation,
+    CannibalizingPage,
+    ExecutiveSummaryRedirect,
+} from '../types';
+
+export interface CannibalizationOptions {
+    minQueryImpressions?: number; // Ignore long-tail queries with too little data
+    minPageShare?: number;        // A page must hold this share of a query's impressions to count as competing
+    maxIssues?: number;
+}
+
+const DEFAULT_OPTIONS: Required<CannibalizationOptions> = {
+    minQueryImpressions: 50,
+    minPageShare: 0.1,
+    maxIssues: 50,
+};
+
+type ConsolidationPair = { from: string; to: string; queries: string[]; fromClicks: number; toClicks: number };
+
+// A competing page earning less than this fraction of the primary's clicks is redirected, not merged
+const REDIRECT_CLICK_RATIO = 0.2;
+
+/**
+ * The primary URL is the one Google already rewards most for the query:
+ * most clicks, then most impressions, then best position.
+ */
+const comparePrimary = (a: CannibalizingPage, b: CannibalizingPage): number =>
+    (b.clicks - a.clicks) || (b.impressions - a.impressions) || (a.position - b.position);
+
+/**
+ * Finds queries where several of our URLs split impressions, recommends a primary URL for each,
+ * and rolls the overlaps up into page-level redirect/merge suggestions.
+ */
+export const detectCannibalization = (
+    dataset: GscAnalyticsDataset,
+    options: CannibalizationOptions = {}
+): CannibalizationReport => {
+    if (!dataset.dimensions.includes('page') || !dataset.dimensions.includes('query')) {
+        throw new Error('Cannibalization analysis needs a dataset fetched with both the page and query dimensions.');
+    }
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+
+    const rowsByQuery = new Map<string, Map<string, { clicks: number; impressions: number; weightedPosition: number }>>();
+    for (const row of dataset.rows) {
+        if (!row.query || !row.page) continue;
+        const pages = rowsByQuery.get(row.query) ?? new Map();
+        const totals = pages.get(row.page) ?? { clicks: 0, impressions: 0, weightedPosition: 0 };
+        totals.clicks += row.clicks;
+        totals.impressions += row.impressions;
+        totals.weightedPosition += row.position * row.impressions;
+        pages.set(row.page, totals);
+        rowsByQuery.set(row.query, pages);
+    }
+
+    const issues: CannibalizationIssue[] = [];
+    for (const [query, pages] of rowsByQuery) {
+        const totalImpressions = [...pages.values()].reduce((sum, p) => sum + p.impressions, 0);
+        if (totalImpressions < opts.minQueryImpressions) continue;
+
+        const competing: CannibalizingPage[] = [...pages.entries()]
+            .map(([url, t]) => ({
+                url,
+                clicks: t.clicks,
+                impressions: t.impressions,
+                position: t.impressions > 0 ? t.weightedPosition / t.impressions : 0,
+                impressionShare: t.impressions / totalImpressions,
+            }))
+            .filter(p => p.impressionShare >= opts.minPageShare)
+            .sort(comparePrimary);
+
+        if (competing.length < 2) continue;
+
+        // The more evenly impressions are split, the harder the pages are fighting each other
+        const secondaryShare = 1 - competing[0].impressionShare;
+        const severity: CannibalizationIssue['severity'] = secondaryShare >= 0.4 ? 'high' : secondaryShare >= 0.25 ? 'medium' : 'low';
+
+        issues.push({
+            query,
+            totalImpressions,
+            totalClicks: [...pages.values()].reduce((sum, p) => sum + p.clicks, 0),
+            primaryUrl: competing[0].url,
+            pages: competing,
+            severity,
+        });
+    }
+
+    issues.sort((a, b) => b.totalImpressions - a.totalImpressions);
+    const topIssues = issues.slice(0, opts.maxIssues);
+
+    return {
+        issues: topIssues,
+        consolidations: buildConsolidations(topIssues),
+        queriesAnalyzed: rowsByQuery.size,
+    };
+};
+
+/**
+ * Rolls per-query overlaps up into one suggestion per competing page.
+ * A page is consolidated into the primary it loses to most often.
+ */
+const buildConsolidations = (issues: CannibalizationIssue[]): CannibalizationConsolidation[] => {
+    const pairs = new Map<string, ConsolidationPair>();
+    const primaryUrls = new Set(issues.map(i => i.primaryUrl));
+
+    for (const issue of issues) {
+        const [primary, ...secondaries] = issue.pages;
+        for (const page of secondaries) {
+            // Never consolidate away a page that is itself the primary for another query
+            if (primaryUrls.has(page.url)) continue;
+            const key = `${page.url}\n${primary.url}`;
+            const pair = pairs.get(key) ?? { from: page.url, to: primary.url, queries: [], fromClicks: 0, toClicks: 0 };
+            pair.queries.push(issue.query);
+            pair.fromClicks += page.clicks;
+            pair.toClicks += primary.clicks;
+            pairs.set(key, pair);
+        }
+    }
+
+    const bestPairByPage = new Map<string, ConsolidationPair>();
+    for (const pair of pairs.values()) {
+        const current = bestPairByPage.get(pair.from);
+        if (!current || pair.queries.length > current.queries.length) {
+            bestPairByPage.set(pair.from, pair);
+        }
+    }
+
+    return [...bestPairByPage.values()]
+        .sort((a, b) => b.queries.length - a.queries.length)
+        .map(pair => {
+            const action: CannibalizationConsolidation['action'] = pair.fromClicks < pair.toClicks * REDIRECT_CLICK_RATIO ? 'redirect' : 'merge';
+            const queryList = pair.queries.slice(0, 3).map(q => `"${q}"`).join(', ') + (pair.queries.length > 3 ? ` and ${pair.queries.length - 3} more` : '');
+            return {
+                from: pair.from,
+                to: pair.to,
+                action,
+                sharedQueries: pair.queries,
+                reason: action === 'redirect'
+                    ? `Competes for ${queryList} but earns only ${pair.fromClicks} clicks vs ${pair.toClicks} on the primary URL. 301 it to the primary.`
+                    : `Splits ${queryList} with the primary URL (${pair.fromClicks} vs ${pair.toClicks} clicks). Merge its unique content into the primary, then 301 it.`,
+            };
+        });
+};
+
+/**
+ * Converts consolidations into executive summary redirects.
+ * Merges become redirects too, since a merged page is retired with a 301.
+ */
+export const toExecutiveSummaryRedirects = (report: CannibalizationReport): ExecutiveSummaryRedirect[] =>
+    report.consolidations.map(c => ({
+        from: c.from,
+        to: c.to,
+        reason: `Keyword cannibalization (${c.action}): ${c.reason}`,
+    }));
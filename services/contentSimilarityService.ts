@@ -0,0 +1,206 @@
+import type { PageAction, PageSnapshot } from '../types';
+import { isHomepage } from '../utils/urlUtils';
+import { formatPercent } from '../utils/utility';
+
+export interface ContentSimilarityOptions {
+    shingleSize?: number;          // Words per shingle
+    minHashCount?: number;         // MinHash signature length; more = tighter estimates
+    duplicateThreshold?: number;   // Estimated Jaccard similarity that makes two pages near-duplicates
+    templatePageShare?: number;    // Shingles on at least this share of pages are template text
+    minTemplatePages?: number;     // Too few pages to tell template text from coincidence below this
+    minUniqueWords?: number;       // Pages with less unique main content are thin
+    maxActions?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ContentSimilarityOptions> = {
+    shingleSize: 5,
+    minHashCount: 128,
+    duplicateThreshold: 0.7,
+    templatePageShare: 0.5,
+    minTemplatePages: 5,
+    minUniqueWords: 200,
+    maxActions: 30,
+};
+
+// Below this many distinct shingles a page is too short to compare reliably; thin detection covers it
+const MIN_COMPARABLE_SHINGLES = 20;
+
+interface PageFingerprint {
+    page: PageSnapshot;
+    rank: number; // Position in the input, i.e. by SEO importance
+    contentShingles: Set<number>; // Without template text
+    uniqueWords: number;
+    boilerplateRatio: number; // Share of the page's words that are navigation, footers or repeated template blocks
+    signature: Uint32Array;
+}
+
+// FNV-1a, enough to spread shingles over 32 bits
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Murmur3's finalizer; seeding it gives the independent hash functions MinHash needs
+const mixHash = (value: number, seed: number): number => {
+    let h = (value ^ seed) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+};
+
+const toWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const shingle = (words: string[], size: number): Set<number> => {
+    const shingles = new Set<number>();
+    if (words.length > 0 && words.length < size) shingles.add(hashString(words.join(' ')));
+    for (let i = 0; i + size <= words.length; i++) {
+        shingles.add(hashString(words.slice(i, i + size).join(' ')));
+    }
+    return shingles;
+};
+
+const minHashSignature = (shingles: Set<number>, seeds: number[]): Uint32Array => {
+    const signature = new Uint32Array(seeds.length).fill(0xffffffff);
+    for (const value of shingles) {
+        for (let i = 0; i < seeds.length; i++) {
+            const h = mixHash(value, seeds[i]);
+            if (h < signature[i]) signature[i] = h;
+        }
+    }
+    return signature;
+};
+
+// The share of matching MinHash slots estimates the Jaccard similarity of the shingle sets
+const estimateSimilarity = (a: Uint32Array, b: Uint32Array): number => {
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) if (a[i] === b[i]) matches++;
+    return matches / a.length;
+};
+
+/**
+ * Fingerprint each page's main content and find near-duplicates and thin pages.
+ *
+ * Shingles (overlapping word runs) that appear on a large share of pages are
+ * treated as template text and left out, so shared sidebars and CTAs neither
+ * make pages look alike nor count as content. Near-duplicates are compared by
+ * MinHash and grouped; every page in a group but the most important one gets a
+ * 'merge' action pointing at it. Pages with too little unique content get 'prune'.
+ */
+export const detectContentSimilarity = (
+    pages: PageSnapshot[],
+    options: ContentSimilarityOptions = {}
+): PageAction[] => {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    // Soft 404s often come back as 200, and are exactly the duplicates worth catching
+    const candidates = pages.filter(page => page.status !== null && page.status < 400 && page.mainText);
+    const seeds = Array.from({ length: opts.minHashCount }, (_, i) => hashString(`minhash-${i}`));
+
+    const wordLists = candidates.map(page => toWords(page.mainText));
+    const shingleSets = wordLists.map(words => shingle(words, opts.shingleSize));
+
+    const pageCounts = new Map<number, number>();
+    shingleSets.forEach(set => set.forEach(value => pageCounts.set(value, (pageCounts.get(value) ?? 0) + 1)));
+    const templateMinPages = Math.max(opts.minTemplatePages, Math.ceil(candidates.length * opts.templatePageShare));
+    const isTemplate = (value: number) => candidates.length >= opts.minTemplatePages && (pageCounts.get(value) ?? 0) >= templateMinPages;
+
+    const fingerprints: PageFingerprint[] = candidates.map((page, rank) => {
+        const shingles = shingleSets[rank];
+        const contentShingles = new Set([...shingles].filter(value => !isTemplate(value)));
+        // Words outside template shingles, approximated by the share of shingles kept
+        const uniqueWords = shingles.size > 0 ? Math.round(wordLists[rank].length * contentShingles.size / shingles.size) : 0;
+        return {
+            page,
+            rank,
+            contentShingles,
+            uniqueWords,
+            boilerplateRatio: page.wordCount > 0 ? Math.max(0, 1 - uniqueWords / page.wordCount) : 0,
+            signature: minHashSignature(contentShingles, seeds),
+        };
+    });
+
+    // Group near-duplicates (union-find keeps chains of similar pages together)
+    const comparable = fingerprints.filter(f => f.contentShingles.size >= MIN_COMPARABLE_SHINGLES);
+    const parent = new Map(comparable.map(f => [f, f]));
+    const find = (f: PageFingerprint): PageFingerprint => {
+        while (parent.get(f) !== f) f = parent.get(f)!;
+        return f;
+    };
+    for (let i = 0; i < comparable.length; i++) {
+        for (let j = i + 1; j < comparable.length; j++) {
+            if (estimateSimilarity(comparable[i].signature, comparable[j].signature) < opts.duplicateThreshold) continue;
+            const [a, b] = [find(comparable[i]), find(comparable[j])];
+            // The better-ranked page becomes the group's representative
+            if (a === b) continue;
+            if (a.rank < b.rank) parent.set(b, a);
+            else parent.set(a, b);
+        }
+    }
+
+    const actions: { action: PageAction; weight: number }[] = [];
+    const inDuplicateGroup = new Set<PageFingerprint>();
+
+    const groups = new Map<PageFingerprint, PageFingerprint[]>();
+    comparable.forEach(f => {
+        const root = find(f);
+        groups.set(root, [...(groups.get(root) ?? []), f]);
+    });
+    for (const [primary, members] of groups) {
+        if (members.length < 2) continue;
+        members.forEach(f => inDuplicateGroup.add(f));
+        for (const duplicate of members) {
+            if (duplicate === primary) continue;
+            const similarity = estimateSimilarity(duplicate.signature, primary.signature);
+            const others = members.length - 2;
+            actions.push({
+                weight: 1 + similarity,
+                action: {
+                    url: duplicate.page.url,
+                    priority: similarity >= 0.9 ? 'high' : 'medium',
+                    source: 'similarity',
+                    rewriteDetails: {
+                        reason: 'Near-duplicate content: this page competes with a stronger page saying the same thing.',
+                        evidence: [
+                            `${formatPercent(similarity, 0)} similar to ${primary.page.url} (MinHash over ${opts.shingleSize}-word shingles, template text excluded)`,
+                            `Unique words: ${duplicate.uniqueWords} here vs ${primary.uniqueWords} on the page to keep`,
+                            ...(others > 0 ? [`${others} more ${others === 1 ? 'page' : 'pages'} in the same duplicate group`] : []),
+                        ].join('. '),
+                        suggestedHeadline: '',
+                        action: 'merge',
+                        owner: 'content',
+                    },
+                },
+            });
+        }
+    }
+
+    for (const f of fingerprints) {
+        if (inDuplicateGroup.has(f) || isHomepage(f.page.url) || f.uniqueWords >= opts.minUniqueWords) continue;
+        actions.push({
+            weight: 1 - f.uniqueWords / opts.minUniqueWords,
+            action: {
+                url: f.page.url,
+                priority: f.uniqueWords < opts.minUniqueWords / 4 ? 'high' : 'medium',
+                source: 'similarity',
+                rewriteDetails: {
+                    reason: 'Thin content: too little unique text to rank. Expand it substantially, or remove or noindex it.',
+                    evidence: [
+                        `${f.uniqueWords} words of unique main content (threshold ${opts.minUniqueWords})`,
+                        `${f.page.wordCount} words on the page, ${formatPercent(f.boilerplateRatio, 0)} of them navigation or template text`,
+                    ].join('. '),
+                    suggestedHeadline: '',
+                    action: 'prune',
+                    owner: 'content',
+                },
+            },
+        });
+    }
+
+    return actions
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, opts.maxActions)
+        .map(a => a.action);
+};
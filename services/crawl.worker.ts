@@ -0,0 +1,49 @@
+import type { CrawlProgress } from '../types';
+import type { CrawlWorkerRequest, CrawlWorkerResponse } from '../types/crawlWorker';
+import { createFetchTransport } from './fetchTransport';
+import { runCrawl } from './crawlEngine';
+
+// Progress can fire for every sitemap; more than this floods the main thread
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: CrawlWorkerResponse) => self.postMessage(message);
+
+let controller: AbortController | null = null;
+
+self.onmessage = async (event: MessageEvent<CrawlWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        controller?.abort();
+        return;
+    }
+
+    controller = new AbortController();
+    const { signal } = controller;
+    let lastPostedAt = 0;
+    let pending: CrawlProgress | null = null;
+    const flushProgress = () => {
+        if (pending) post({ type: 'progress', progress: pending });
+        pending = null;
+        lastPostedAt = Date.now();
+    };
+
+    try {
+        const result = await runCrawl(request.sitemapUrl, {
+            transport: createFetchTransport(request.transport),
+            settings: request.settings,
+            signal,
+            onProgress: progress => {
+                pending = progress;
+                if (Date.now() - lastPostedAt >= PROGRESS_INTERVAL_MS) flushProgress();
+            },
+        });
+        if (signal.aborted) {
+            post({ type: 'cancelled' });
+            return;
+        }
+        flushProgress();
+        post({ type: 'result', ...result });
+    } catch (e) {
+        post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+};
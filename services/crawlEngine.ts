@@ -0,0 +1,236 @@
+
+/**
+ * The sitemap crawl engine. It touches neither the DOM nor browser storage, so
+ * the same code runs in the crawl worker (see crawlingService.ts), on the main
+ * thread as a fallback, and headlessly in Node with any FetchTransport.
+ */
+import type { CrawlProgress, CrawlSettings, SitemapEntry, SitemapFile, SitemapCrawlResult } from "../types";
+import type { SampledCrawl } from "../types/crawlWorker";
+import { readSitemapBody, parseSitemap } from "./sitemapParser";
+import { fetchWithTransport, type FetchTransport } from "./fetchTransport";
+import { stratifiedSample } from "../utils/urlSampling";
+import { rankUrls } from "../utils/seoScoring";
+
+export const DEFAULT_CRAWL_SETTINGS: CrawlSettings = {
+    maxUrls: 600,
+    concurrency: 12,
+    timeoutSeconds: 120,
+};
+
+// Bounds for user-supplied settings
+export const CRAWL_SETTINGS_LIMITS: Record<keyof CrawlSettings, { min: number; max: number }> = {
+    maxUrls: { min: 50, max: 5000 },
+    concurrency: { min: 1, max: 32 },
+    timeoutSeconds: { min: 15, max: 600 },
+};
+
+// Safety limit to prevent browser crashes on massive enterprise sites (100k+ pages).
+// Sampling happens after the crawl, so this only bounds how much of the site is seen.
+const MAX_DISCOVERED_URLS = 200000;
+
+export const normalizeCrawlSettings = (settings: Partial<CrawlSettings> = {}): CrawlSettings => {
+    const clamp = (key: keyof CrawlSettings) => {
+        const value = Math.round(Number(settings[key] ?? DEFAULT_CRAWL_SETTINGS[key]));
+        const { min, max } = CRAWL_SETTINGS_LIMITS[key];
+        return isNaN(value) ? DEFAULT_CRAWL_SETTINGS[key] : Math.min(max, Math.max(min, value));
+    };
+    return { maxUrls: clamp('maxUrls'), concurrency: clamp('concurrency'), timeoutSeconds: clamp('timeoutSeconds') };
+};
+
+/**
+ * Crawls a sitemap, handling nested sitemap indexes and reporting progress.
+ * Optimized for single-pass parallel processing with Heuristic Prioritization.
+ * Each URL keeps the metadata from the first sitemap that listed it; every file
+ * visited is also returned as-is so the sitemaps themselves can be validated.
+ * Every child sitemap is visited (within the time limit) so that the sample
+ * drawn from the result covers all of them; see utils/urlSampling.ts.
+ * Aborting `externalSignal` stops the crawl early with what was found so far.
+ */
+const crawlSitemapFiles = async (
+    initialSitemapUrl: string,
+    transport: FetchTransport,
+    { concurrency, timeoutSeconds }: CrawlSettings,
+    onProgress: (progress: CrawlProgress) => void,
+    externalSignal?: AbortSignal
+): Promise<SitemapCrawlResult> => {
+    const allPageUrls = new Map<string, SitemapEntry>();
+    const urlsBySitemap: Record<string, number> = {};
+    const files: SitemapFile[] = [];
+    let unvisitedSitemaps = 0;
+    
+    const controller = new AbortController();
+    const signal = controller.signal;
+    const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+    const onAbort = () => controller.abort();
+    externalSignal?.addEventListener('abort', onAbort);
+    if (externalSignal?.aborted) controller.abort();
+
+    try {
+        const sitemapsToProcess = new Set<string>([initialSitemapUrl]);
+        const processedSitemaps = new Set<string>();
+        const processingQueue: string[] = [initialSitemapUrl];
+        
+        let processedCount = 0;
+        let activeWorkers = 0;
+        
+        await new Promise<void>((resolve, reject) => {
+            const processNext = async () => {
+                // Stop fetching once the time budget or the safety limit is used up
+                if (signal.aborted || allPageUrls.size >= MAX_DISCOVERED_URLS) {
+                    // Drain queue
+                    if (activeWorkers === 0) resolve();
+                    return;
+                }
+
+                if (processingQueue.length === 0 && activeWorkers === 0) {
+                    resolve();
+                    return;
+                }
+                
+                if (processingQueue.length === 0 || activeWorkers >= concurrency) {
+                    return;
+                }
+
+                const sitemapUrl = processingQueue.shift()!;
+                if (processedSitemaps.has(sitemapUrl)) {
+                    processNext();
+                    return;
+                }
+
+                activeWorkers++;
+                processedSitemaps.add(sitemapUrl);
+                
+                if (processingQueue.length > 0 && activeWorkers < concurrency) {
+                     processNext();
+                }
+
+                let bytes: number | null = null;
+                try {
+                    const response = await fetchWithTransport(transport, sitemapUrl, signal);
+                    const text = await readSitemapBody(response);
+                    
+                    if (signal.aborted) return;
+                    bytes = new TextEncoder().encode(text).length;
+
+                    // Handles XML, gzipped XML, RSS/Atom feeds and plain-text URL lists
+                    const sitemap = parseSitemap(text);
+                    files.push({
+                        url: sitemapUrl,
+                        bytes,
+                        format: sitemap.format,
+                        childSitemaps: sitemap.format === 'sitemapindex' ? sitemap.sitemaps : [],
+                        urls: sitemap.format === 'sitemapindex' ? [] : sitemap.urls,
+                    });
+
+                    // Check for nested sitemaps
+                    if (sitemap.format === 'sitemapindex') {
+                        const nestedUrls = sitemap.sitemaps;
+                        
+                        // Smart Sorting: Prioritize "post", "page", "product" sitemaps.
+                        // Deprioritize "tag", "author", "date" archives.
+                        nestedUrls.sort((a, b) => {
+                            const priorityRegex = /post|page|product|service|landing/i;
+                            const lowPriorityRegex = /tag|author|archive|date|20\d\d/i;
+                            
+                            const aScore = (priorityRegex.test(a!) ? 2 : 0) - (lowPriorityRegex.test(a!) ? 2 : 0);
+                            const bScore = (priorityRegex.test(b!) ? 2 : 0) - (lowPriorityRegex.test(b!) ? 2 : 0);
+                            
+                            return bScore - aScore;
+                        });
+
+                        nestedUrls.forEach(url => {
+                            if (!processedSitemaps.has(url) && !sitemapsToProcess.has(url)) {
+                                sitemapsToProcess.add(url);
+                                // High priority goes to front of queue, low to back
+                                const isHighValue = /post|page|product/i.test(url);
+                                if (isHighValue) {
+                                    processingQueue.unshift(url);
+                                } else {
+                                    processingQueue.push(url);
+                                }
+                            }
+                        });
+                    } else {
+                        // Extract URLs
+                        const newUrls = sitemap.urls.map(entry => entry.loc);
+                        
+                        let newCount = 0;
+                        sitemap.urls.forEach(({ loc, ...metadata }) => {
+                            if (!allPageUrls.has(loc)) {
+                                allPageUrls.set(loc, { url: loc, ...metadata, source: sitemapUrl });
+                                newCount++;
+                            }
+                        });
+                        
+                        if (newCount > 0) {
+                            urlsBySitemap[sitemapUrl] = (urlsBySitemap[sitemapUrl] ?? 0) + newCount;
+                             onProgress({
+                                type: 'crawling',
+                                count: processedCount + 1,
+                                total: sitemapsToProcess.size,
+                                currentSitemap: sitemapUrl,
+                                pagesFound: allPageUrls.size,
+                                lastUrlFound: newUrls[newUrls.length - 1],
+                                totalUrls: 0,
+                                urlsBySitemap: { ...urlsBySitemap }
+                            });
+                        }
+                    }
+                } catch (e) {
+                    console.warn(`Error processing ${sitemapUrl}:`, e);
+                    if (!signal.aborted) {
+                        files.push({
+                            url: sitemapUrl,
+                            bytes: bytes ?? 0,
+                            // The body was read, so the failure is in the content
+                            error: { kind: bytes === null ? 'unreachable' : 'parse', message: e instanceof Error ? e.message : String(e) },
+                            childSitemaps: [],
+                            urls: [],
+                        });
+                    }
+                } finally {
+                    processedCount++;
+                    activeWorkers--;
+                    onProgress({
+                        type: 'crawling',
+                        count: processedCount,
+                        total: sitemapsToProcess.size,
+                        currentSitemap: sitemapUrl,
+                        pagesFound: allPageUrls.size,
+                        urlsBySitemap: { ...urlsBySitemap }
+                    });
+                    processNext();
+                }
+            };
+
+            const initialWorkers = Math.min(concurrency, processingQueue.length);
+            for (let i = 0; i < initialWorkers; i++) {
+                processNext();
+            }
+        });
+
+        unvisitedSitemaps = sitemapsToProcess.size - processedSitemaps.size;
+    } finally {
+        clearTimeout(timeoutId);
+        externalSignal?.removeEventListener('abort', onAbort);
+    }
+    
+    return { entries: [...allPageUrls.values()], files, unvisitedSitemaps };
+}
+
+export interface CrawlOptions {
+    transport: FetchTransport;
+    settings?: Partial<CrawlSettings>;
+    onProgress?: (progress: CrawlProgress) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * Crawl a sitemap, then draw the stratified sample and rank it, so none of the
+ * heavy lifting happens wherever the caller's UI runs.
+ */
+export const runCrawl = async (sitemapUrl: string, { transport, settings, onProgress = () => {}, signal }: CrawlOptions): Promise<SampledCrawl> => {
+    const normalized = normalizeCrawlSettings(settings);
+    const crawl = await crawlSitemapFiles(sitemapUrl, transport, normalized, onProgress, signal);
+    return { crawl, rankedSample: rankUrls(stratifiedSample(crawl.entries, normalized.maxUrls)) };
+};
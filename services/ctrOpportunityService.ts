@@ -0,0 +1,168 @@
+import type { GscAnalyticsDataset, PageAction, OptimizationTask } from '../types';
+import { formatPercent } from '../utils/utility';
+
+export interface CtrCurve {
+    source: 'default' | 'fitted';
+    ctrByPosition: number[]; // Index 0 = position 1
+}
+
+export interface CtrOpportunity {
+    page: string;
+    query: string;
+    impressions: number;
+    clicks: number;
+    position: number;
+    actualCtr: number;
+    expectedCtr: number;
+    lostClicks: number;
+}
+
+export interface CtrOpportunityOptions {
+    minImpressions?: number; // Ignore pairs too small to judge
+    limit?: number;
+}
+
+export interface SnippetActionOptions {
+    maxPages?: number;
+    queriesPerPage?: number;
+}
+
+// Organic CTR by position for positions 1-20, blended from public CTR studies
+export const DEFAULT_CTR_CURVE: CtrCurve = {
+    source: 'default',
+    ctrByPosition: [
+        0.276, 0.158, 0.110, 0.084, 0.063, 0.049, 0.039, 0.033, 0.027, 0.024,
+        0.018, 0.016, 0.014, 0.013, 0.012, 0.011, 0.010, 0.009, 0.009, 0.008,
+    ],
+};
+
+// A fitted bucket needs this many impressions before we trust it over the default curve
+const MIN_BUCKET_IMPRESSIONS = 500;
+// Fitting only makes sense if the site has data across the top of the results page
+const MIN_FITTED_BUCKETS = 5;
+
+/**
+ * Expected CTR for an average position, interpolating between whole positions.
+ */
+export const expectedCtr = (curve: CtrCurve, position: number): number => {
+    const points = curve.ctrByPosition;
+    if (position <= 1) return points[0];
+    if (position >= points.length) return points[points.length - 1];
+    const lower = Math.floor(position);
+    const fraction = position - lower;
+    return points[lower - 1] + (points[lower] - points[lower - 1]) * fraction;
+};
+
+/**
+ * Fits a CTR curve from the site's own rows, bucketed by rounded position.
+ * Buckets without enough data keep the default value, and the result is forced
+ * to be non-increasing so a noisy bucket can't rank position 5 above position 3.
+ * Falls back to the default curve when the site has too little data.
+ */
+export const fitCtrCurve = (dataset: GscAnalyticsDataset): CtrCurve => {
+    const size = DEFAULT_CTR_CURVE.ctrByPosition.length;
+    const buckets = Array.from({ length: size }, () => ({ clicks: 0, impressions: 0 }));
+
+    for (const row of dataset.rows) {
+        const bucket = Math.round(row.position) - 1;
+        if (bucket < 0 || bucket >= size) continue;
+        buckets[bucket].clicks += row.clicks;
+        buckets[bucket].impressions += row.impressions;
+    }
+
+    const fittedBuckets = buckets.filter(b => b.impressions >= MIN_BUCKET_IMPRESSIONS).length;
+    if (fittedBuckets < MIN_FITTED_BUCKETS) {
+        return DEFAULT_CTR_CURVE;
+    }
+
+    const ctrByPosition: number[] = [];
+    buckets.forEach((b, i) => {
+        const ctr = b.impressions >= MIN_BUCKET_IMPRESSIONS ? b.clicks / b.impressions : DEFAULT_CTR_CURVE.ctrByPosition[i];
+        ctrByPosition.push(i === 0 ? ctr : Math.min(ctr, ctrByPosition[i - 1]));
+    });
+
+    return { source: 'fitted', ctrByPosition };
+};
+
+/**
+ * Ranks page/query pairs by clicks lost to an underperforming snippet:
+ * impressions × (expected CTR − actual CTR).
+ */
+export const findCtrOpportunities = (
+    dataset: GscAnalyticsDataset,
+    curve: CtrCurve = DEFAULT_CTR_CURVE,
+    options: CtrOpportunityOptions = {}
+): CtrOpportunity[] => {
+    if (!dataset.dimensions.includes('page') || !dataset.dimensions.includes('query')) {
+        throw new Error('CTR opportunity analysis needs a dataset fetched with both the page and query dimensions.');
+    }
+    const { minImpressions = 100, limit = 100 } = options;
+
+    const opportunities: CtrOpportunity[] = [];
+    for (const row of dataset.rows) {
+        if (!row.page || !row.query || row.impressions < minImpressions) continue;
+        const expected = expectedCtr(curve, row.position);
+        const lostClicks = row.impressions * (expected - row.ctr);
+        if (lostClicks <= 0) continue;
+        opportunities.push({
+            page: row.page,
+            query: row.query,
+            impressions: row.impressions,
+            clicks: row.clicks,
+            position: row.position,
+            actualCtr: row.ctr,
+            expectedCtr: expected,
+            lostClicks,
+        });
+    }
+
+    return opportunities.sort((a, b) => b.lostClicks - a.lostClicks).slice(0, limit);
+};
+
+/**
+ * Groups opportunities by page and turns the biggest losers into snippet-rewrite actions.
+ */
+export const toSnippetRewriteActions = (
+    opportunities: CtrOpportunity[],
+    curve: CtrCurve,
+    options: SnippetActionOptions = {}
+): PageAction[] => {
+    const { maxPages = 10, queriesPerPage = 3 } = options;
+
+    const byPage = new Map<string, CtrOpportunity[]>();
+    for (const opp of opportunities) {
+        byPage.set(opp.page, [...(byPage.get(opp.page) ?? []), opp]);
+    }
+
+    return [...byPage.entries()]
+        .map(([page, opps]) => ({ page, opps, gain: opps.reduce((sum, o) => sum + o.lostClicks, 0) }))
+        .sort((a, b) => b.gain - a.gain)
+        .slice(0, maxPages)
+        .map(({ page, opps, gain }): PageAction => {
+            const topQueries = opps.slice(0, queriesPerPage);
+            const projectedClickGain = Math.round(gain);
+            const evidence = topQueries
+                .map(o => `"${o.query}" at position ${o.position.toFixed(1)}: ${formatPercent(o.actualCtr)} CTR vs ${formatPercent(o.expectedCtr)} expected over ${o.impressions} impressions (-${Math.round(o.lostClicks)} clicks)`)
+                .join('. ');
+            const optimizationTasks: OptimizationTask[] = [
+                { task: `Rewrite the title tag to lead with "${topQueries[0].query}" and a concrete benefit`, impact: 'high' },
+                { task: 'Rewrite the meta description as a compelling answer with a clear call to action', impact: 'medium' },
+                { task: 'Add structured data that can earn rich results for this page type', impact: 'medium' },
+            ];
+
+            return {
+                url: page,
+                priority: projectedClickGain >= 100 ? 'high' : projectedClickGain >= 25 ? 'medium' : 'low',
+                source: 'ctr',
+                rewriteDetails: {
+                    reason: `Snippet underperforms the ${curve.source === 'fitted' ? "site's own" : 'typical'} CTR for its rankings. A rewrite could recover about ${projectedClickGain} clicks over the same period.`,
+                    evidence,
+                    suggestedHeadline: '',
+                    action: 'update',
+                    owner: 'content',
+                },
+                optimizationTasks,
+                projectedClickGain,
+            };
+        });
+};
@@ -0,0 +1,126 @@
+import type { GscAnalyticsDataset, PageAction, SearchPerformanceMetrics } from '../types';
+import { fetchSearchAnalytics, getGscDateRange, aggregateByPage, GSC_DATA_LAG_DAYS, type SearchAnalyticsQueryOptions } from './gscService';
+import { formatPercent } from '../utils/utility';
+
+export interface PeriodComparison {
+    current: GscAnalyticsDataset;
+    previous: GscAnalyticsDataset;
+}
+
+export interface DecayDetectionOptions {
+    minPreviousClicks?: number;   // Ignore pages too small to measure a drop reliably
+    minClickDropRatio?: number;   // Relative click loss required, e.g. 0.2 = 20%
+    minPositionDrop?: number;     // Average positions lost required
+    minImpressions?: number;      // Impressions needed in both windows to trust position
+    zThreshold?: number;          // Significance cut-off for the click drop
+    maxActions?: number;
+}
+
+const DEFAULT_OPTIONS: Required<DecayDetectionOptions> = {
+    minPreviousClicks: 20,
+    minClickDropRatio: 0.2,
+    minPositionDrop: 2,
+    minImpressions: 100,
+    zThreshold: 1.96, // ~95% confidence
+    maxActions: 20,
+};
+
+/**
+ * Fetches page-level data for two back-to-back windows of equal length
+ * (e.g. the last 90 days and the 90 days before that).
+ */
+export const fetchPeriodComparison = async (
+    siteUrl: string,
+    accessToken: string,
+    days: number = 90,
+    options: Partial<SearchAnalyticsQueryOptions> = {}
+): Promise<PeriodComparison> => {
+    const [current, previous] = await Promise.all([
+        fetchSearchAnalytics(siteUrl, accessToken, { ...options, dimensions: ['page'], dateRange: getGscDateRange(days, GSC_DATA_LAG_DAYS) }),
+        fetchSearchAnalytics(siteUrl, accessToken, { ...options, dimensions: ['page'], dateRange: getGscDateRange(days, GSC_DATA_LAG_DAYS + days) }),
+    ]);
+    return { current, previous };
+};
+
+/**
+ * Two-sample Poisson z-score for a change in click counts between equal-length windows.
+ * Negative values indicate a drop.
+ */
+const clickChangeZScore = (previous: number, current: number): number => {
+    const total = previous + current;
+    return total > 0 ? (current - previous) / Math.sqrt(total) : 0;
+};
+
+/**
+ * Compares two periods per page and returns refresh actions for pages whose
+ * clicks or average position dropped meaningfully.
+ */
+export const detectContentDecay = (
+    comparison: PeriodComparison,
+    options: DecayDetectionOptions = {}
+): PageAction[] => {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const current = aggregateByPage(comparison.current);
+    const previous = aggregateByPage(comparison.previous);
+    const { startDate: prevStart, endDate: prevEnd } = comparison.previous.dateRange;
+    const { startDate: currStart, endDate: currEnd } = comparison.current.dateRange;
+
+    const findings: { action: PageAction; lostClicks: number }[] = [];
+
+    for (const [url, before] of Object.entries(previous)) {
+        const after: SearchPerformanceMetrics = current[url] ?? { clicks: 0, impressions: 0, ctr: 0, position: 0 };
+
+        const lostClicks = before.clicks - after.clicks;
+        const dropRatio = before.clicks > 0 ? lostClicks / before.clicks : 0;
+        const z = clickChangeZScore(before.clicks, after.clicks);
+        const clickDecay = before.clicks >= opts.minPreviousClicks
+            && dropRatio >= opts.minClickDropRatio
+            && z <= -opts.zThreshold;
+
+        // Position grows as rankings get worse
+        const positionDrop = after.position - before.position;
+        const positionDecay = before.impressions >= opts.minImpressions
+            && after.impressions >= opts.minImpressions
+            && positionDrop >= opts.minPositionDrop;
+
+        if (!clickDecay && !positionDecay) continue;
+
+        const evidence: string[] = [];
+        if (clickDecay) {
+            evidence.push(`Clicks fell from ${before.clicks} to ${after.clicks} (-${formatPercent(dropRatio)}, z=${z.toFixed(2)})`);
+        }
+        if (positionDecay) {
+            evidence.push(`Average position slipped from ${before.position.toFixed(1)} to ${after.position.toFixed(1)}`);
+        }
+        evidence.push(`Impressions ${before.impressions} → ${after.impressions}; CTR ${formatPercent(before.ctr)} → ${formatPercent(after.ctr)}`);
+        evidence.push(`Compared ${currStart}–${currEnd} against ${prevStart}–${prevEnd}`);
+
+        const priority: PageAction['priority'] = clickDecay && (lostClicks >= 100 || dropRatio >= 0.5)
+            ? 'high'
+            : clickDecay ? 'medium' : 'low';
+
+        findings.push({
+            lostClicks,
+            action: {
+                url,
+                priority,
+                source: 'decay',
+                rewriteDetails: {
+                    reason: clickDecay
+                        ? 'Content decay: this page is losing search traffic it used to earn.'
+                        : 'Content decay: this page is losing rankings for its queries.',
+                    evidence: evidence.join('. '),
+                    suggestedHeadline: '',
+                    action: 'refresh',
+                    owner: 'content',
+                },
+                performance: after,
+            },
+        });
+    }
+
+    return findings
+        .sort((a, b) => b.lostClicks - a.lostClicks)
+        .slice(0, opts.maxActions)
+        .map(f => f.action);
+};
@@ -0,0 +1,196 @@
+import type { FetchTransportConfig, FetchTransportKind } from '../types';
+
+const FETCH_TRANSPORT_STORAGE_KEY = 'orchestrator-ai-fetch-transport';
+
+// Paths served by server/fetchProxy.mjs, both in the Vite dev server and standalone
+const BUNDLED_FETCH_PATH = '/__orchestrator/fetch';
+const BUNDLED_HOP_PATH = '/__orchestrator/hop';
+
+const TEST_URL = 'https://example.com/';
+
+export interface TransportResponse {
+    response: Response;
+    finalUrl: string; // After redirects, as far as the transport can tell
+}
+
+export interface HopResult {
+    status: number | null; // null when the redirect was hidden from us
+    location: string | null;
+    xRobotsTag: string | null;
+    blocked?: boolean; // The site answered, but without CORS headers the browser hides the response
+}
+
+export interface FetchTransport {
+    readonly kind: FetchTransportKind;
+    /**
+     * Fetch a URL, following redirects. Resolves with the upstream response whatever
+     * its status; rejects only when the site could not be reached at all.
+     */
+    fetch(url: string, signal: AbortSignal): Promise<TransportResponse>;
+    /**
+     * Request a single hop without following redirects. Only transports that can
+     * see redirect responses implement this.
+     */
+    fetchHop?(url: string, signal: AbortSignal): Promise<HopResult>;
+}
+
+// import.meta.env only exists in Vite builds; the transports also run in Node
+export const DEFAULT_FETCH_TRANSPORT: FetchTransportConfig = import.meta.env?.DEV
+    ? { kind: 'bundled_proxy', proxyUrl: '' }
+    : { kind: 'direct' };
+
+const directTransport: FetchTransport = {
+    kind: 'direct',
+    async fetch(url, signal) {
+        try {
+            const response = await fetch(url, { mode: 'cors', signal });
+            return { response, finalUrl: response.url || url };
+        } catch (e) {
+            if (signal.aborted) throw e;
+            throw new Error(`Could not fetch ${url} directly. The site probably does not allow cross-origin requests; configure a proxy in Network Settings.`);
+        }
+    },
+    async fetchHop(url, signal) {
+        let response: Response;
+        try {
+            response = await fetch(url, { mode: 'cors', redirect: 'manual', signal });
+        } catch (e) {
+            if (signal.aborted) throw e;
+            // A CORS failure looks like a network error; a no-cors request tells whether the site answered at all
+            try {
+                await fetch(url, { mode: 'no-cors', signal });
+            } catch {
+                if (signal.aborted) throw e;
+                throw new Error(`Could not reach ${url}`);
+            }
+            return { status: null, location: null, xRobotsTag: null, blocked: true };
+        }
+        response.body?.cancel();
+        // Browsers turn every redirect into an opaque response without status or headers
+        if (response.type === 'opaqueredirect') {
+            return { status: null, location: null, xRobotsTag: null };
+        }
+        return {
+            status: response.status,
+            location: response.headers.get('location'),
+            xRobotsTag: response.headers.get('x-robots-tag'),
+        };
+    },
+};
+
+const customProxyTransport = (template: string): FetchTransport => ({
+    kind: 'custom_proxy',
+    async fetch(url, signal) {
+        const proxied = template.includes('{url}')
+            ? template.replace('{url}', encodeURIComponent(url))
+            : `${template}${encodeURIComponent(url)}`;
+        const response = await fetch(proxied, { signal });
+        return { response, finalUrl: response.headers.get('x-final-url') || url };
+    },
+});
+
+const bundledProxyTransport = (origin: string): FetchTransport => {
+    const base = origin.replace(/\/+$/, '');
+    const endpoint = (path: string, url: string) => `${base}${path}?url=${encodeURIComponent(url)}`;
+    const request = async (path: string, url: string, signal: AbortSignal) => {
+        let response: Response;
+        try {
+            response = await fetch(endpoint(path, url), { signal });
+        } catch (e) {
+            if (signal.aborted) throw e;
+            throw new Error(`The fetch proxy at ${base || 'the dev server'} is not reachable. Start it with "npm run proxy" or pick another transport in Network Settings.`);
+        }
+        // The proxy flags its own failures so they aren't mistaken for the site's status
+        const proxyError = response.headers.get('x-proxy-error');
+        if (proxyError) throw new Error(proxyError);
+        return response;
+    };
+
+    return {
+        kind: 'bundled_proxy',
+        async fetch(url, signal) {
+            const response = await request(BUNDLED_FETCH_PATH, url, signal);
+            return { response, finalUrl: response.headers.get('x-final-url') || url };
+        },
+        async fetchHop(url, signal) {
+            const response = await request(BUNDLED_HOP_PATH, url, signal);
+            return await response.json() as HopResult;
+        },
+    };
+};
+
+export const createFetchTransport = (config: FetchTransportConfig): FetchTransport => {
+    switch (config.kind) {
+        case 'custom_proxy':
+            if (!config.proxyUrl) throw new Error('A custom proxy needs a URL.');
+            return customProxyTransport(config.proxyUrl);
+        case 'bundled_proxy':
+            return bundledProxyTransport(config.proxyUrl || '');
+        case 'direct':
+            return directTransport;
+    }
+};
+
+let activeConfig: FetchTransportConfig | null = null;
+let activeTransport: FetchTransport | null = null;
+
+export const getFetchTransportConfig = (): FetchTransportConfig => {
+    if (!activeConfig) {
+        try {
+            const stored = localStorage.getItem(FETCH_TRANSPORT_STORAGE_KEY);
+            activeConfig = stored ? JSON.parse(stored) as FetchTransportConfig : DEFAULT_FETCH_TRANSPORT;
+        } catch {
+            activeConfig = DEFAULT_FETCH_TRANSPORT;
+        }
+    }
+    return activeConfig;
+};
+
+export const setFetchTransportConfig = (config: FetchTransportConfig): void => {
+    createFetchTransport(config); // Validate before persisting
+    localStorage.setItem(FETCH_TRANSPORT_STORAGE_KEY, JSON.stringify(config));
+    activeConfig = config;
+    activeTransport = null;
+};
+
+export const getFetchTransport = (): FetchTransport => {
+    if (!activeTransport) {
+        activeTransport = createFetchTransport(getFetchTransportConfig());
+    }
+    return activeTransport;
+};
+
+/**
+ * Fetch a URL through a transport and insist on a 2xx response.
+ */
+export const fetchWithTransport = async (transport: FetchTransport, url: string, signal: AbortSignal): Promise<Response> => {
+    const { response } = await transport.fetch(url, signal);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${url} (status ${response.status}). Please verify the URL is publicly accessible.`);
+    }
+    return response;
+};
+
+/**
+ * Fetch a URL through the configured transport and insist on a 2xx response.
+ */
+export const fetchUrl = (url: string, signal: AbortSignal): Promise<Response> =>
+    fetchWithTransport(getFetchTransport(), url, signal);
+
+/**
+ * Check that a transport configuration can actually reach the web.
+ */
+export const testFetchTransport = async (config: FetchTransportConfig): Promise<{ success: boolean; message: string }> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    try {
+        const { response } = await createFetchTransport(config).fetch(TEST_URL, controller.signal);
+        return response.ok
+            ? { success: true, message: `Reached ${TEST_URL} (status ${response.status}).` }
+            : { success: false, message: `Got status ${response.status} for ${TEST_URL}.` };
+    } catch (e) {
+        return { success: false, message: controller.signal.aborted ? 'Timed out.' : e instanceof Error ? e.message : 'Unknown error' };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
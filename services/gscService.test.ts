@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import pageQueryRecording from '../test/fixtures/gsc/searchAnalytics.page-query.json';
+import permissionDeniedRecording from '../test/fixtures/gsc/searchAnalytics.permission-denied.json';
+import { createRecordedGscApi } from '../test/recordedGscApi';
+import { fetchSearchAnalytics } from './gscService';
+
+const DATE_RANGE = { startDate: '2026-07-01', endDate: '2026-09-28' };
+
+const fetchRecorded = (recording: Parameters<typeof createRecordedGscApi>[0], options: { rowLimit?: number; pageSize?: number }) => {
+    const api = createRecordedGscApi(recording);
+    const dataset = fetchSearchAnalytics('sc-domain:example.com', 'token', {
+        dimensions: ['page', 'query'],
+        dateRange: DATE_RANGE,
+        fetchImpl: api.fetch,
+        ...options,
+    });
+    return { api, dataset };
+};
+
+describe('fetchSearchAnalytics', () => {
+    it('pages through startRow until the API runs out of rows', async () => {
+        const { api, dataset } = fetchRecorded(pageQueryRecording, { pageSize: 2 });
+        const { rows, truncated } = await dataset;
+
+        expect(api.requests.map(r => [r.startRow, r.rowLimit])).toEqual([[0, 2], [2, 2], [4, 2]]);
+        expect(rows).toHaveLength(5);
+        expect(rows[0]).toEqual({
+            page: 'https://www.example.com/guides/technical-seo/',
+            query: 'technical seo checklist',
+            clicks: 412,
+            impressions: 9870,
+            ctr: 0.04174265450861195,
+            position: 4.2,
+        });
+        expect(truncated).toBe(false);
+    });
+
+    it('sends the query with every page request', async () => {
+        const { api, dataset } = fetchRecorded(pageQueryRecording, { pageSize: 2 });
+        await dataset;
+
+        for (const request of api.requests) {
+            expect(request).toMatchObject({ ...DATE_RANGE, dimensions: ['page', 'query'], type: 'web' });
+        }
+    });
+
+    it('stops at rowLimit and reports truncation when more rows exist', async () => {
+        const { api, dataset } = fetchRecorded(pageQueryRecording, { pageSize: 2, rowLimit: 3 });
+        const { rows, truncated } = await dataset;
+
+        expect(rows).toHaveLength(3);
+        expect(api.requests.map(r => [r.startRow, r.rowLimit])).toEqual([[0, 2], [2, 1], [3, 1]]);
+        expect(truncated).toBe(true);
+    });
+
+    it('does not report truncation when the last page was exactly full', async () => {
+        const { api, dataset } = fetchRecorded(pageQueryRecording, { pageSize: 5, rowLimit: 5 });
+        const { rows, truncated } = await dataset;
+
+        expect(rows).toHaveLength(5);
+        expect(api.requests.map(r => [r.startRow, r.rowLimit])).toEqual([[0, 5], [5, 1]]);
+        expect(truncated).toBe(false);
+    });
+
+    it('never asks for more than the API\'s 25,000-row page', async () => {
+        const { api, dataset } = fetchRecorded(pageQueryRecording, { pageSize: 100000, rowLimit: 100000 });
+        await dataset;
+
+        expect(api.requests[0].rowLimit).toBe(25000);
+    });
+
+    it('surfaces the API\'s error message', async () => {
+        const { dataset } = fetchRecorded(permissionDeniedRecording, {});
+
+        await expect(dataset).rejects.toThrow(/sufficient permission for site 'sc-domain:example.com'/);
+    });
+});
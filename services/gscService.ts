@@ -1,3 +1,5 @@
+import type { GscAnalyticsDataset, GscAnalyticsRow, GscDateRange, GscDimension, GscSearchType } from '../types';
+
 
 export interface GscSite {
     siteUrl: string;
@@ -73,6 +75,11 @@ export const fetchGscPerformanceForUrl = async (
         body: JSON.stringify(requestBody),
     });
 
+    if (response.status === 401 || response.status === 403) {
+        // Auth failures must not masquerade as "no data for this URL"
+        throw new Error(`GSC access was rejected (status ${response.status}). The token may have expired.`);
+    }
+
     if (!response.ok) {
         // It's common to not find data for a specific URL, so we don't throw an error, just log and return null.
         console.warn(`Could not fetch GSC performance for ${pageUrl}. Status: ${response.status}`);
@@ -81,8 +88,208 @@ export const fetchGscPerformanceForUrl = async (
 
     const data = await response.json();
     if (data.rows && data.rows.length > 0) {
-        return data.rows[0]; // The API returns { keys, clicks, impressions, ctr, position }
+        // The API returns { keys, clicks, impressions, ctr, position }
+        const { clicks, impressions, ctr, position } = data.rows[0];
+        return { clicks, impressions, ctr, position };
     }
 
     return null; // No data found for this specific URL
 };
+
+export interface GscSitemap {
+    path: string;
+    lastSubmitted?: string;
+    lastDownloaded?: string;
+    isSitemapsIndex?: boolean;
+    isPending?: boolean;
+    warnings?: string;
+    errors?: string;
+}
+
+/**
+ * Lists the sitemaps submitted for a property.
+ */
+export const fetchGscSitemaps = async (siteUrl: string, accessToken: string): Promise<GscSitemap[]> => {
+    const response = await fetch(`${GSC_API_BASE}/sites/${encodeURIComponent(siteUrl)}/sitemaps`, {
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        },
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: { message: 'Unknown error' }}));
+        throw new Error(`Failed to fetch GSC sitemaps: ${error.error?.message || response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.sitemap || [];
+};
+
+export interface SearchAnalyticsQueryOptions {
+    dimensions: GscDimension[];
+    dateRange?: GscDateRange;
+    searchType?: GscSearchType;
+    rowLimit?: number; // Total rows to collect across all pages
+    pageSize?: number; // Rows per request; the API allows at most 25,000
+    dimensionFilterGroups?: unknown[];
+    // Injectable so the fetcher can run against recorded fixtures instead of the live API
+    fetchImpl?: typeof fetch;
+    apiBase?: string;
+}
+
+// The API caps a single response at 25,000 rows
+const SEARCH_ANALYTICS_PAGE_SIZE = 25000;
+const DEFAULT_ROW_LIMIT = 50000;
+// GSC data is typically finalized with a 2-3 day lag
+export const GSC_DATA_LAG_DAYS = 3;
+
+const formatGscDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Builds a date range covering the last `days` days of finalized data.
+ */
+export const getGscDateRange = (days: number = 90, endOffsetDays: number = GSC_DATA_LAG_DAYS): GscDateRange => {
+    const endDate = new Date();
+    endDate.setDate(endDate.getDate() - endOffsetDays);
+    const startDate = new Date(endDate);
+    startDate.setDate(endDate.getDate() - days + 1);
+    return { startDate: formatGscDate(startDate), endDate: formatGscDate(endDate) };
+};
+
+/**
+ * Pulls whole-site searchAnalytics rows for the given dimensions,
+ * paging through `startRow` until the API runs dry or `rowLimit` is reached.
+ */
+export const fetchSearchAnalytics = async (
+    siteUrl: string,
+    accessToken: string,
+    options: SearchAnalyticsQueryOptions
+): Promise<GscAnalyticsDataset> => {
+    const {
+        dimensions,
+        dateRange = getGscDateRange(),
+        searchType = 'web',
+        rowLimit = DEFAULT_ROW_LIMIT,
+        pageSize: maxPageSize = SEARCH_ANALYTICS_PAGE_SIZE,
+        dimensionFilterGroups,
+        fetchImpl = fetch,
+        apiBase = GSC_API_BASE,
+    } = options;
+
+    type ApiRow = { keys?: string[]; clicks: number; impressions: number; ctr: number; position: number };
+    const queryPage = async (startRow: number, pageSize: number): Promise<ApiRow[]> => {
+        const response = await fetchImpl(`${apiBase}/sites/${encodeURIComponent(siteUrl)}/searchAnalytics/query`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                ...dateRange,
+                dimensions,
+                type: searchType,
+                ...(dimensionFilterGroups && { dimensionFilterGroups }),
+                rowLimit: pageSize,
+                startRow,
+            }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: { message: 'Unknown error' }}));
+            throw new Error(`Failed to fetch GSC search analytics: ${error.error?.message || response.statusText}`);
+        }
+
+        const data = await response.json();
+        return data.rows || [];
+    };
+
+    const rows: GscAnalyticsRow[] = [];
+    let truncated = false;
+
+    while (true) {
+        const pageSize = Math.min(maxPageSize, SEARCH_ANALYTICS_PAGE_SIZE, rowLimit - rows.length);
+        const pageRows = await queryPage(rows.length, pageSize);
+
+        for (const { keys = [], clicks, impressions, ctr, position } of pageRows) {
+            const row: GscAnalyticsRow = { clicks, impressions, ctr, position };
+            dimensions.forEach((dimension, i) => { row[dimension] = keys[i]; });
+            rows.push(row);
+        }
+
+        if (pageRows.length < pageSize) break;
+        if (rows.length >= rowLimit) {
+            // The last page may have been exactly full; only more rows make the result truncated
+            truncated = (await queryPage(rows.length, 1)).length > 0;
+            break;
+        }
+    }
+
+    return {
+        siteUrl,
+        dimensions,
+        dateRange,
+        searchType,
+        rows,
+        truncated,
+        fetchedAt: new Date().toISOString(),
+    };
+};
+
+/**
+ * Aggregates a dataset into page-level metrics keyed by page URL.
+ * CTR is recomputed and position impression-weighted so multi-dimension rows combine correctly.
+ */
+export const aggregateByPage = (dataset: GscAnalyticsDataset): Record<string, GscPerformanceData> => {
+    if (!dataset.dimensions.includes('page')) {
+        throw new Error('Cannot aggregate by page: the dataset was fetched without the page dimension.');
+    }
+
+    const totals: Record<string, { clicks: number; impressions: number; weightedPosition: number }> = {};
+    for (const row of dataset.rows) {
+        if (!row.page) continue;
+        const t = totals[row.page] ??= { clicks: 0, impressions: 0, weightedPosition: 0 };
+        t.clicks += row.clicks;
+        t.impressions += row.impressions;
+        t.weightedPosition += row.position * row.impressions;
+    }
+
+    return Object.fromEntries(Object.entries(totals).map(([page, t]) => [page, {
+        clicks: t.clicks,
+        impressions: t.impressions,
+        ctr: t.impressions > 0 ? t.clicks / t.impressions : 0,
+        position: t.impressions > 0 ? t.weightedPosition / t.impressions : 0,
+    }]));
+};
+
+/**
+ * Looks up page-level metrics for the given URLs, tolerating trailing-slash differences
+ * between sitemap URLs and GSC page keys. Pages without data are omitted.
+ */
+export const joinPageMetrics = (
+    pageUrls: string[],
+    byPage: Record<string, GscPerformanceData>
+): Record<string, GscPerformanceData> => {
+    const normalize = (url: string) => url.replace(/\/+$/, '');
+    const byNormalizedPage = new Map(Object.entries(byPage).map(([page, metrics]) => [normalize(page), metrics]));
+
+    const results: Record<string, GscPerformanceData> = {};
+    for (const pageUrl of pageUrls) {
+        const metrics = byPage[pageUrl] ?? byNormalizedPage.get(normalize(pageUrl));
+        if (metrics) results[pageUrl] = metrics;
+    }
+    return results;
+};
+
+/**
+ * Fetches page-level performance for the whole site in bulk and joins it onto the given URLs.
+ */
+export const fetchGscPerformanceForUrls = async (
+    pageUrls: string[],
+    siteUrl: string,
+    accessToken: string,
+    options: Partial<SearchAnalyticsQueryOptions> = {}
+): Promise<Record<string, GscPerformanceData>> => {
+    const dataset = await fetchSearchAnalytics(siteUrl, accessToken, { ...options, dimensions: ['page'] });
+    return joinPageMetrics(pageUrls, aggregateByPage(dataset));
+};
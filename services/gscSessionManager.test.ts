@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { GscSite } from '../types';
+import { findGscProperty } from './gscSessionManager';
+
+const site = (siteUrl: string): GscSite => ({ siteUrl, permissionLevel: 'siteOwner' });
+
+describe('findGscProperty', () => {
+    it('uses a property picked from the list as is', () => {
+        const sites = [site('https://www.example.com/blog/'), site('sc-domain:example.com')];
+        expect(findGscProperty('https://www.example.com/blog/', sites)).toBe('https://www.example.com/blog/');
+    });
+
+    it('prefers the URL-prefix property for the typed origin over a domain property', () => {
+        const sites = [site('sc-domain:example.com'), site('https://shop.example.com/')];
+        expect(findGscProperty('shop.example.com', sites)).toBe('https://shop.example.com/');
+    });
+
+    it('falls back to a domain property covering the host', () => {
+        const sites = [site('https://other.com/'), site('sc-domain:example.com')];
+        expect(findGscProperty('www.example.com/pricing', sites)).toBe('sc-domain:example.com');
+        expect(findGscProperty('example.com', sites)).toBe('sc-domain:example.com');
+        expect(findGscProperty('notexample.com', sites)).toBeNull();
+    });
+
+    it('matches the www variant of a bare domain', () => {
+        expect(findGscProperty('example.com', [site('https://www.example.com/')])).toBe('https://www.example.com/');
+    });
+
+    it('returns null when no property covers the site', () => {
+        const sites = [site('https://www.example.com/blog/'), site('https://other.com/')];
+        expect(findGscProperty('example.com', sites)).toBeNull();
+        expect(findGscProperty('not a site', sites)).toBeNull();
+        expect(findGscProperty('example.com', [])).toBeNull();
+    });
+});
@@ -0,0 +1,224 @@
+import type { GscSite, GscTokenResponse, GscSessionState, GscUnavailableReason } from '../types';
+import { normalizeSiteOrigin } from './sitemapDiscoveryService';
+
+export const GSC_CLIENT_ID_STORAGE_KEY = 'orchestrator-ai-gsc-client-id';
+export const GSC_SCOPE = 'https://www.googleapis.com/auth/webmasters.readonly';
+const GSC_PROPERTY_STORAGE_KEY = 'orchestrator-ai-gsc-property';
+
+// Refresh this long before Google's expiry so in-flight pipelines never hold a dead token
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const REFRESH_TIMEOUT_MS = 30 * 1000;
+
+type Listener = (state: GscSessionState) => void;
+
+/**
+ * Human-readable explanation of why GSC data is unavailable
+ */
+export function describeGscUnavailable(reason: GscUnavailableReason): string {
+  switch (reason) {
+    case 'not_connected':
+      return 'Google Search Console is not connected.';
+    case 'expired':
+      return 'Your Google Search Console session expired. Reconnect to load real performance data.';
+    case 'refresh_failed':
+      return 'Google Search Console access could not be renewed. Reconnect to load real performance data.';
+  }
+}
+
+/**
+ * The Search Console property that covers a site the user typed ("example.com",
+ * a full URL or a property itself). A property picked from the list is used as is;
+ * otherwise the URL-prefix property for the site's origin wins, then a domain
+ * property covering its host, then the www / non-www variant. Null when none of
+ * the user's properties covers the site, since GSC rejects anything else.
+ */
+export function findGscProperty(siteInput: string, sites: GscSite[]): string | null {
+  const exact = sites.find(s => s.siteUrl === siteInput.trim());
+  if (exact) return exact.siteUrl;
+
+  const origin = normalizeSiteOrigin(siteInput);
+  if (!origin) return null;
+  const host = new URL(origin).hostname;
+  const bareHost = host.replace(/^www\./, '');
+
+  const prefix = sites.find(s => s.siteUrl === `${origin}/`);
+  if (prefix) return prefix.siteUrl;
+  const domain = sites.find(s => {
+    if (!s.siteUrl.startsWith('sc-domain:')) return false;
+    const covered = s.siteUrl.slice('sc-domain:'.length).toLowerCase();
+    return host === covered || host.endsWith(`.${covered}`);
+  });
+  if (domain) return domain.siteUrl;
+  const variant = sites.find(s => {
+    if (s.siteUrl.startsWith('sc-domain:')) return false;
+    try {
+      const url = new URL(s.siteUrl);
+      return url.pathname === '/' && url.hostname.replace(/^www\./, '') === bareHost;
+    } catch {
+      return false;
+    }
+  });
+  return variant?.siteUrl ?? null;
+}
+
+/**
+ * Owns the Google Search Console access token: tracks its expiry, renews it through
+ * the Google Identity Services token client before it lapses, and remembers the
+ * selected property across reloads. Tokens themselves are kept in memory only.
+ */
+class GscSessionManager {
+  private state: GscSessionState = {
+    status: 'unavailable',
+    reason: 'not_connected',
+    property: localStorage.getItem(GSC_PROPERTY_STORAGE_KEY),
+  };
+  private listeners = new Set<Listener>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<string | null> | null = null;
+
+  getState(): GscSessionState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Start a session from a token obtained by the interactive connect flow
+   */
+  connect(token: GscTokenResponse, sites: GscSite[]): void {
+    const property = this.state.property && sites.some(s => s.siteUrl === this.state.property)
+      ? this.state.property
+      : null;
+    this.setToken(token, sites, property);
+  }
+
+  disconnect(): void {
+    this.clearRefreshTimer();
+    const token = this.state.status === 'connected' ? this.state.token.access_token : null;
+    if (token) {
+      window.google?.accounts?.oauth2?.revoke?.(token, () => {});
+    }
+    this.setState({ status: 'unavailable', reason: 'not_connected', property: this.state.property });
+  }
+
+  /**
+   * Remember the property (site) the user works with
+   */
+  setProperty(property: string | null): void {
+    if (property) {
+      localStorage.setItem(GSC_PROPERTY_STORAGE_KEY, property);
+    } else {
+      localStorage.removeItem(GSC_PROPERTY_STORAGE_KEY);
+    }
+    this.setState({ ...this.state, property });
+  }
+
+  /**
+   * Returns a token that is valid for at least the refresh margin, renewing it first
+   * if needed. Resolves to null when GSC is unavailable.
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (this.state.status !== 'connected') return null;
+    if (this.state.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return this.state.token.access_token;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Silently re-request a token through the GIS token client.
+   * Concurrent callers share one request.
+   */
+  refresh(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestSilentToken().finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  private async requestSilentToken(): Promise<string | null> {
+    if (this.state.status !== 'connected') return null;
+    const { sites, property } = this.state;
+    const clientId = localStorage.getItem(GSC_CLIENT_ID_STORAGE_KEY);
+    const oauth2 = window.google?.accounts?.oauth2;
+
+    if (!clientId || !oauth2) {
+      this.markUnavailable('refresh_failed');
+      return null;
+    }
+
+    try {
+      const token = await new Promise<GscTokenResponse>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('Token refresh timed out')), REFRESH_TIMEOUT_MS);
+        const client = oauth2.initTokenClient({
+          client_id: clientId,
+          scope: GSC_SCOPE,
+          callback: (response: GscTokenResponse) => {
+            clearTimeout(timeout);
+            if (response.error) {
+              reject(new Error(response.error_description || response.error));
+            } else {
+              resolve(response);
+            }
+          },
+          error_callback: (error: any) => {
+            clearTimeout(timeout);
+            reject(new Error(error?.message || error?.type || 'Token refresh failed'));
+          },
+        });
+        // An empty prompt reuses the existing consent without showing the account chooser
+        client.requestAccessToken({ prompt: '' });
+      });
+
+      console.log('[GSC] Access token refreshed');
+      this.setToken(token, sites, property);
+      return token.access_token;
+    } catch (e) {
+      console.warn('[GSC] Failed to refresh access token:', e);
+      this.markUnavailable(Date.now() >= this.expiresAt() ? 'expired' : 'refresh_failed');
+      return null;
+    }
+  }
+
+  private setToken(token: GscTokenResponse, sites: GscSite[], property: string | null): void {
+    const expiresAt = Date.now() + token.expires_in * 1000;
+    this.setState({ status: 'connected', token, expiresAt, sites, property });
+    this.scheduleRefresh(expiresAt);
+  }
+
+  private scheduleRefresh(expiresAt: number): void {
+    this.clearRefreshTimer();
+    const delay = Math.max(0, expiresAt - REFRESH_MARGIN_MS - Date.now());
+    this.refreshTimer = setTimeout(() => { this.refresh(); }, delay);
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private expiresAt(): number {
+    return this.state.status === 'connected' ? this.state.expiresAt : 0;
+  }
+
+  private markUnavailable(reason: GscUnavailableReason): void {
+    this.clearRefreshTimer();
+    this.setState({ status: 'unavailable', reason, property: this.state.property });
+  }
+
+  private setState(state: GscSessionState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Export singleton instance
+export const gscSession = new GscSessionManager();
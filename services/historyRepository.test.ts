@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HistoricalAnalysis } from '../types';
+import { createMockSupabaseClient, mockBrowser, mockDb, resetMockSupabase } from '../test/mockSupabaseClient';
+import { historyRepository } from './historyRepository';
+import { getSessionId } from './sessionIdentity';
+
+vi.mock('./supabaseClient', async () => {
+    const { mockBrowser } = await import('../test/mockSupabaseClient');
+    return { supabase: mockBrowser.client, isSupabaseAvailable: () => true };
+});
+
+const analysis = (sitemapUrl: string): Omit<HistoricalAnalysis, 'id'> => ({
+    date: '1/1/2026, 12:00:00 PM',
+    sitemapUrl,
+    competitorSitemaps: [],
+    sitewideAnalysis: {} as HistoricalAnalysis['sitewideAnalysis'],
+    analysis: {} as HistoricalAnalysis['analysis'],
+    analysisType: 'global',
+});
+
+describe('historyRepository against Supabase', () => {
+    beforeEach(async () => {
+        await resetMockSupabase();
+        localStorage.clear();
+    });
+
+    it('stores anonymous analyses under this browser\'s session id', async () => {
+        const saved = await historyRepository.save(analysis('https://example.com/sitemap.xml'));
+
+        expect(mockDb.tables.analysis_history).toEqual([
+            expect.objectContaining({ id: saved.id, session_id: getSessionId(), user_id: null }),
+        ]);
+        expect((await historyRepository.list()).items.map(h => h.id)).toEqual([saved.id]);
+    });
+
+    it('hides one session\'s analyses from another', async () => {
+        await historyRepository.save(analysis('https://example.com/sitemap.xml'));
+        const otherBrowser = createMockSupabaseClient(mockDb, { 'x-session-id': 'another-browser' });
+
+        const { data } = await otherBrowser.client.from('analysis_history').select('*');
+        expect(data).toEqual([]);
+    });
+
+    it('persists anonymous updates and clears', async () => {
+        const saved = await historyRepository.save(analysis('https://example.com/sitemap.xml'));
+        const actionPlan = [{ day: 1, focus: 'Fix redirects', tasks: [] }] as unknown as HistoricalAnalysis['actionPlan'];
+
+        await historyRepository.update(saved.id, { actionPlan });
+        expect(mockDb.tables.analysis_history[0].action_plan).toEqual(actionPlan);
+
+        await historyRepository.clear();
+        expect(mockDb.tables.analysis_history).toEqual([]);
+    });
+
+    it('fails an update that row-level security filtered out', async () => {
+        const saved = await historyRepository.save(analysis('https://example.com/sitemap.xml'));
+        mockDb.anonPolicies.analysis_history = ['select', 'insert'];
+
+        await expect(historyRepository.update(saved.id, { date: 'later' })).rejects.toThrow(/no stored analysis matched/);
+        expect(mockDb.tables.analysis_history[0].display_date).toBe('1/1/2026, 12:00:00 PM');
+    });
+
+    it('pages newest first and reports whether more pages exist', async () => {
+        for (let i = 0; i < 3; i++) await historyRepository.save(analysis(`https://example.com/${i}.xml`));
+
+        const first = await historyRepository.list(0, 2);
+        const second = await historyRepository.list(1, 2);
+        expect(first.items.map(h => h.sitemapUrl)).toEqual(['https://example.com/2.xml', 'https://example.com/1.xml']);
+        expect(first.hasMore).toBe(true);
+        expect(second.items.map(h => h.sitemapUrl)).toEqual(['https://example.com/0.xml']);
+        expect(second.hasMore).toBe(false);
+    });
+
+    it('uploads history saved in localStorage before Supabase was configured, once', async () => {
+        localStorage.setItem('orchestrator-ai-history', JSON.stringify([{ ...analysis('https://example.com/old.xml'), id: '2025-06-01T10:00:00.000Z' }]));
+
+        expect(await historyRepository.migrateLocalHistory()).toBe(1);
+        expect(await historyRepository.migrateLocalHistory()).toBe(0);
+        expect(mockDb.tables.analysis_history).toEqual([
+            expect.objectContaining({ sitemap_url: 'https://example.com/old.xml', created_at: '2025-06-01T10:00:00.000Z', session_id: getSessionId() }),
+        ]);
+    });
+});
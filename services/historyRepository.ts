@@ -0,0 +1,265 @@
+import type { HistoricalAnalysis } from '../types';
+import { supabase, isSupabaseAvailable } from './supabaseClient';
+import { getSessionId } from './sessionIdentity';
+import { getCurrentUser } from './authService';
+
+const HISTORY_STORAGE_KEY = 'orchestrator-ai-history';
+const MIGRATION_FLAG_KEY = 'orchestrator-ai-history-migrated';
+const HISTORY_TABLE = 'analysis_history';
+export const HISTORY_PAGE_SIZE = 20;
+// localStorage is capped at ~5MB per origin, so the offline fallback keeps a bounded window
+const MAX_LOCAL_ENTRIES = 50;
+
+export interface HistoryPage {
+  items: HistoricalAnalysis[];
+  hasMore: boolean;
+}
+
+interface AnalysisHistoryRow {
+  id: string;
+  session_id: string | null;
+  sitemap_url: string;
+  competitor_sitemaps: string[] | null;
+  analysis_type: HistoricalAnalysis['analysisType'];
+  target_location: string | null;
+  sitewide_analysis: HistoricalAnalysis['sitewideAnalysis'];
+  seo_analysis: HistoricalAnalysis['analysis'];
+  sources: HistoricalAnalysis['sources'] | null;
+  action_plan: HistoricalAnalysis['actionPlan'] | null;
+  executive_summary: HistoricalAnalysis['executiveSummary'] | null;
+  display_date: string;
+  created_at: string;
+}
+
+/**
+ * Map a database row onto the shape the UI works with
+ */
+function fromRow(row: AnalysisHistoryRow): HistoricalAnalysis {
+  return {
+    id: row.id,
+    date: row.display_date || new Date(row.created_at).toLocaleString(),
+    sitemapUrl: row.sitemap_url,
+    competitorSitemaps: row.competitor_sitemaps ?? [],
+    sitewideAnalysis: row.sitewide_analysis,
+    analysis: row.seo_analysis,
+    sources: row.sources ?? [],
+    analysisType: row.analysis_type,
+    location: row.target_location || undefined,
+    actionPlan: row.action_plan ?? undefined,
+    executiveSummary: row.executive_summary ?? undefined,
+  };
+}
+
+/**
+ * Map (a subset of) an analysis onto database columns
+ */
+function toRow(analysis: Partial<HistoricalAnalysis>): Partial<AnalysisHistoryRow> {
+  const row: Partial<AnalysisHistoryRow> = {};
+  if (analysis.sitemapUrl !== undefined) row.sitemap_url = analysis.sitemapUrl;
+  if (analysis.competitorSitemaps !== undefined) row.competitor_sitemaps = analysis.competitorSitemaps;
+  if (analysis.analysisType !== undefined) row.analysis_type = analysis.analysisType;
+  if (analysis.location !== undefined) row.target_location = analysis.location;
+  if (analysis.sitewideAnalysis !== undefined) row.sitewide_analysis = analysis.sitewideAnalysis;
+  if (analysis.analysis !== undefined) row.seo_analysis = analysis.analysis;
+  if (analysis.sources !== undefined) row.sources = analysis.sources;
+  if (analysis.actionPlan !== undefined) row.action_plan = analysis.actionPlan;
+  if (analysis.executiveSummary !== undefined) row.executive_summary = analysis.executiveSummary;
+  if (analysis.date !== undefined) row.display_date = analysis.date;
+  return row;
+}
+
+/**
+ * Anonymous rows are keyed by session id; signed-in rows are owned via user_id only,
+ * so they stay private to the account after sign-out.
+ */
+async function ownershipColumns(): Promise<Pick<AnalysisHistoryRow, 'session_id'>> {
+  const user = await getCurrentUser();
+  return { session_id: user ? null : getSessionId() };
+}
+
+/**
+ * Read the locally stored history (newest first)
+ */
+function readLocal(): HistoricalAnalysis[] {
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as HistoricalAnalysis[]) : [];
+  } catch (e) {
+    console.warn('[HistoryRepository] Failed to parse local history, discarding it:', e);
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    return [];
+  }
+}
+
+/**
+ * Write the local history, dropping the oldest entries if storage runs out
+ */
+function writeLocal(history: HistoricalAnalysis[]): void {
+  let entries = history.slice(0, MAX_LOCAL_ENTRIES);
+  while (entries.length > 0) {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries));
+      return;
+    } catch (e) {
+      if (!(e instanceof Error && e.name === 'QuotaExceededError')) {
+        console.warn('[HistoryRepository] Failed to persist local history:', e);
+        return;
+      }
+      entries = entries.slice(0, -1);
+    }
+  }
+}
+
+
+/**
+ * Stores analysis history in Supabase when it is configured,
+ * falling back to localStorage when it is not.
+ */
+class HistoryRepository {
+  private migration: Promise<number> | null = null;
+
+  /**
+   * Whether history is persisted remotely rather than in this browser only
+   */
+  isRemote(): boolean {
+    return isSupabaseAvailable();
+  }
+
+  /**
+   * Fetch one page of history, newest first
+   */
+  async list(page: number = 0, pageSize: number = HISTORY_PAGE_SIZE): Promise<HistoryPage> {
+    const from = page * pageSize;
+
+    if (supabase) {
+      // Request one extra row to learn whether another page exists
+      const { data, error } = await supabase
+        .from(HISTORY_TABLE)
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize);
+
+      if (error) {
+        throw new Error(`Failed to load analysis history: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as AnalysisHistoryRow[];
+      return {
+        items: rows.slice(0, pageSize).map(fromRow),
+        hasMore: rows.length > pageSize,
+      };
+    }
+
+    const history = readLocal();
+    return {
+      items: history.slice(from, from + pageSize),
+      hasMore: history.length > from + pageSize,
+    };
+  }
+
+  /**
+   * Persist a new analysis and return it with its storage-assigned id
+   */
+  async save(analysis: Omit<HistoricalAnalysis, 'id'>): Promise<HistoricalAnalysis> {
+    if (supabase) {
+      const { data, error } = await supabase
+        .from(HISTORY_TABLE)
+        .insert({ ...toRow(analysis), ...(await ownershipColumns()) })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save analysis: ${error.message}`);
+      }
+      return fromRow(data as AnalysisHistoryRow);
+    }
+
+    const saved: HistoricalAnalysis = { ...analysis, id: new Date().toISOString() };
+    writeLocal([saved, ...readLocal()]);
+    return saved;
+  }
+
+  /**
+   * Apply a partial update to a stored analysis (e.g. completed tasks).
+   * Row-level security filters out rows the caller may not change instead of
+   * raising an error, so an update that matched no row is a failure too.
+   */
+  async update(id: string, updates: Partial<HistoricalAnalysis>): Promise<void> {
+    if (supabase) {
+      const { error, count } = await supabase
+        .from(HISTORY_TABLE)
+        .update(toRow(updates), { count: 'exact' })
+        .eq('id', id);
+
+      if (error) {
+        throw new Error(`Failed to update analysis: ${error.message}`);
+      }
+      if (count === 0) {
+        throw new Error('Failed to update analysis: no stored analysis matched, or it belongs to another session');
+      }
+      return;
+    }
+
+    writeLocal(readLocal().map(h => (h.id === id ? { ...h, ...updates } : h)));
+  }
+
+  /**
+   * Remove every stored analysis the current user can see
+   */
+  async clear(): Promise<void> {
+    if (supabase) {
+      const { error } = await supabase
+        .from(HISTORY_TABLE)
+        .delete()
+        .not('id', 'is', null);
+
+      if (error) {
+        console.warn('[HistoryRepository] Failed to clear history:', error.message);
+      }
+    }
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+  }
+
+  /**
+   * One-time upload of entries saved in localStorage before Supabase was available.
+   * Returns the number of migrated entries.
+   */
+  migrateLocalHistory(): Promise<number> {
+    // Share one in-flight run so concurrent callers cannot upload the entries twice
+    if (!this.migration) {
+      this.migration = this.runMigration().finally(() => { this.migration = null; });
+    }
+    return this.migration;
+  }
+
+  private async runMigration(): Promise<number> {
+    if (!supabase || localStorage.getItem(MIGRATION_FLAG_KEY)) {
+      return 0;
+    }
+
+    const localHistory = readLocal();
+    if (localHistory.length > 0) {
+      // Local ids are ISO timestamps, so reuse them to keep the original ordering
+      const ownership = await ownershipColumns();
+      const rows = localHistory.map(h => ({
+        ...toRow(h),
+        ...ownership,
+        ...(!isNaN(Date.parse(h.id)) && { created_at: h.id }),
+      }));
+      const { error } = await supabase.from(HISTORY_TABLE).insert(rows);
+
+      if (error) {
+        console.warn('[HistoryRepository] Local history migration failed, will retry next load:', error.message);
+        return 0;
+      }
+      localStorage.removeItem(HISTORY_STORAGE_KEY);
+      console.log(`[HistoryRepository] Migrated ${localHistory.length} local analyses to Supabase`);
+    }
+
+    localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+    return localHistory.length;
+  }
+}
+
+// Export singleton instance
+export const historyRepository = new HistoryRepository();
@@ -0,0 +1,179 @@
+import type { HreflangAlternate, HreflangIssue, HreflangIssueType, HreflangReport, PageSnapshot, SitemapEntry, UrlStatusResult } from '../types';
+import { describeStatus } from '../utils/auditFindings';
+import { hreflangCodeProblem } from '../utils/localeCodes';
+import { normalizeUrl } from '../utils/urlUtils';
+
+const MAX_EXAMPLES = 5;
+// Alternates of the crawled pages that get their own status check; the rest of the site is only checked for return links
+export const MAX_HREFLANG_TARGET_CHECKS = 200;
+
+interface Declaration {
+    from: string;
+    lang: string;
+    href: string;
+}
+
+const formatLang = (lang: string): string => {
+    const [language, ...rest] = lang.trim().toLowerCase().split('-');
+    if (language === 'x') return lang.trim().toLowerCase();
+    return [language, ...rest.map(part => part.length === 2 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1))].join('-');
+};
+
+const isFetched = (page: PageSnapshot) => page.status !== null && page.status < 400;
+
+/**
+ * Alternate URLs named by the crawled pages, in the sitemap or on the page,
+ * that have no status result yet. Checking them is what makes broken and
+ * redirecting alternates visible.
+ */
+export const hreflangTargetsToCheck = (
+    pages: PageSnapshot[],
+    entries: SitemapEntry[],
+    checkedUrls: string[],
+    limit = MAX_HREFLANG_TARGET_CHECKS
+): string[] => {
+    const checked = new Set(checkedUrls.map(url => normalizeUrl(url)));
+    const alternatesByUrl = new Map(entries.map(entry => [normalizeUrl(entry.url), entry.alternates]));
+    const targets = new Set<string>();
+    for (const page of pages.filter(isFetched)) {
+        const alternates = [...page.hreflang, ...(alternatesByUrl.get(normalizeUrl(page.url)) ?? [])];
+        for (const alternate of alternates) {
+            const href = normalizeUrl(alternate.href, page.url);
+            if (href && !checked.has(href)) targets.add(href);
+            if (targets.size >= limit) return [...targets];
+        }
+    }
+    return [...targets];
+};
+
+/**
+ * Validate the site's hreflang annotations from both the sitemap (xhtml:link)
+ * and the crawled pages (<link rel="alternate">), which Google merges. Finds
+ * invalid codes, missing return links, clusters without x-default, and
+ * alternates that redirect, fail or point at non-canonical URLs. Returns
+ * undefined when the site declares no alternates at all.
+ */
+export const validateHreflang = (
+    entries: SitemapEntry[],
+    pages: PageSnapshot[],
+    statusResults: UrlStatusResult[]
+): HreflangReport | undefined => {
+    const declarationsByUrl = new Map<string, Declaration[]>();
+    const seen = new Set<string>();
+    const sources = { sitemap: 0, page: 0 };
+    const declare = (url: string, alternates: HreflangAlternate[], source: keyof typeof sources) => {
+        const from = normalizeUrl(url);
+        if (!from) return;
+        for (const alternate of alternates) {
+            const href = normalizeUrl(alternate.href, from);
+            if (!href) continue;
+            sources[source]++;
+            const key = `${from}\n${alternate.lang.toLowerCase()}\n${href}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            declarationsByUrl.set(from, [...(declarationsByUrl.get(from) ?? []), { from, lang: alternate.lang.trim(), href }]);
+        }
+    };
+    entries.forEach(entry => declare(entry.url, entry.alternates, 'sitemap'));
+    const fetched = pages.filter(isFetched);
+    fetched.forEach(page => declare(page.url, page.hreflang, 'page'));
+    if (declarationsByUrl.size === 0) return undefined;
+
+    const declarations = [...declarationsByUrl.values()].flat();
+    // A URL's annotations are known if it declares any, or if we read its HTML and found none
+    const crawledUrls = new Set(fetched.map(page => normalizeUrl(page.url)));
+    const isKnown = (url: string) => declarationsByUrl.has(url) || crawledUrls.has(url);
+    const statusByUrl = new Map(statusResults.map(result => [normalizeUrl(result.url), result]));
+    const canonicalByUrl = new Map(fetched.map(page => [normalizeUrl(page.url), page.canonical && normalizeUrl(page.canonical)]));
+
+    const issues: HreflangIssue[] = [];
+    const addIssue = (type: HreflangIssueType, severity: HreflangIssue['severity'], message: (count: number) => string, examples: string[], count = examples.length) => {
+        if (count === 0) return;
+        issues.push({ type, severity, message: message(count), count, examples: examples.slice(0, MAX_EXAMPLES) });
+    };
+
+    // Invalid codes, one example per distinct value
+    const invalid = declarations.flatMap(d => {
+        const problem = hreflangCodeProblem(d.lang);
+        return problem ? [{ d, problem }] : [];
+    });
+    const invalidByCode = new Map(invalid.map(({ d, problem }) => [d.lang, `hreflang="${d.lang}" ${problem} (on ${d.from})`]));
+    addIssue(
+        'invalid_code',
+        'error',
+        n => `${n} annotation${n === 1 ? ' uses an invalid' : 's use invalid'} language or region code${n === 1 ? '' : 's'}. Google ignores them; use ISO 639-1 languages and ISO 3166-1 alpha-2 regions, e.g. "en-GB".`,
+        [...invalidByCode.values()],
+        invalid.length
+    );
+
+    const missingReturn = declarations.filter(d =>
+        d.href !== d.from && isKnown(d.href) && !(declarationsByUrl.get(d.href) ?? []).some(back => back.href === d.from)
+    );
+    addIssue(
+        'missing_return_link',
+        'error',
+        n => `${n} alternate${n === 1 ? ' does' : 's do'} not link back. Google ignores hreflang pairs that are not confirmed from both sides.`,
+        missingReturn.map(d => `${d.from} → ${d.href} (${d.lang})`)
+    );
+
+    // Group URLs into clusters: every version of one piece of content
+    const parent = new Map<string, string>();
+    const find = (url: string): string => {
+        let root = url;
+        while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+        parent.set(url, root);
+        return root;
+    };
+    declarations.forEach(d => {
+        const [a, b] = [find(d.from), find(d.href)];
+        if (a !== b) parent.set(b, a);
+    });
+    const clusters = new Map<string, Declaration[]>();
+    declarations.forEach(d => {
+        const root = find(d.from);
+        clusters.set(root, [...(clusters.get(root) ?? []), d]);
+    });
+    const withoutDefault = [...clusters.values()].filter(cluster => !cluster.some(d => d.lang.toLowerCase() === 'x-default'));
+    addIssue(
+        'missing_x_default',
+        'warning',
+        n => `${n} cluster${n === 1 ? ' has' : 's have'} no x-default. Add one pointing at the version for users who match no listed language or region.`,
+        withoutDefault.map(cluster => `${cluster[0].from} (${[...new Set(cluster.map(d => formatLang(d.lang)))].join(', ')})`),
+        withoutDefault.length
+    );
+
+    const targets = [...new Set(declarations.map(d => d.href))];
+    const badStatus = targets.flatMap(href => {
+        const result = statusByUrl.get(href);
+        return result && (result.status !== 200 || result.hops > 0) ? [`${href} ${describeStatus(result)}`] : [];
+    });
+    addIssue(
+        'non_200_target',
+        'error',
+        n => `${n} alternate URL${n === 1 ? '' : 's'} ${n === 1 ? 'does' : 'do'} not return 200. Point hreflang straight at the final, working URL.`,
+        badStatus
+    );
+
+    const nonCanonical = targets.flatMap(href => {
+        const canonical = canonicalByUrl.get(href);
+        return canonical && canonical !== href ? [`${href} canonicalizes to ${canonical}`] : [];
+    });
+    addIssue(
+        'non_canonical_target',
+        'error',
+        n => `${n} alternate URL${n === 1 ? ' is' : 's are'} not canonical. hreflang must name the canonical version of each page, or Google drops the cluster.`,
+        nonCanonical
+    );
+
+    const langCounts = new Map<string, number>();
+    declarations.forEach(d => langCounts.set(formatLang(d.lang), (langCounts.get(formatLang(d.lang)) ?? 0) + 1));
+
+    return {
+        urlsWithHreflang: declarationsByUrl.size,
+        clusters: clusters.size,
+        languages: [...langCounts.entries()].sort((a, b) => b[1] - a[1]).map(([lang]) => lang),
+        sources,
+        targetsChecked: targets.filter(href => statusByUrl.has(href)).length,
+        issues,
+    };
+};
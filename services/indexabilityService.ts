@@ -0,0 +1,179 @@
+import type { IndexabilityCode, IndexabilityResult, PageAction, PageSnapshot, TechnicalAudit, UrlStatusResult } from '../types';
+import { applyFindings, describeStatus } from '../utils/auditFindings';
+import { normalizeUrl } from '../utils/urlUtils';
+import { pluralize } from '../utils/utility';
+
+type ActionItem = TechnicalAudit['actionItems'][number];
+
+const MAX_EVIDENCE = 10;
+// Canonical targets outside the crawl sample that get their own status check
+export const MAX_CANONICAL_TARGET_CHECKS = 100;
+
+const NOINDEX = /\b(noindex|none)\b/i;
+
+const hasParameters = (url: string): boolean => {
+    try {
+        return new URL(url).search.length > 1;
+    } catch {
+        return false;
+    }
+};
+
+const isFetched = (page: PageSnapshot) => page.status !== null;
+
+/**
+ * Canonical URLs declared by the crawled pages that point outside the sample
+ * and have no status result yet.
+ */
+export const canonicalTargetsToCheck = (pages: PageSnapshot[], checkedUrls: string[], limit = MAX_CANONICAL_TARGET_CHECKS): string[] => {
+    const checked = new Set(checkedUrls.map(url => normalizeUrl(url)));
+    const targets = new Set<string>();
+    for (const page of pages.filter(isFetched)) {
+        const canonical = page.canonical && normalizeUrl(page.canonical);
+        if (!canonical || canonical === normalizeUrl(page.url) || checked.has(canonical)) continue;
+        targets.add(canonical);
+        if (targets.size >= limit) break;
+    }
+    return [...targets];
+};
+
+/**
+ * Label every fetched page as indexable, non-indexable or conflicting, from
+ * its HTTP status, robots directives and canonical, and the same signals on
+ * the page its canonical points at. "Conflicting" means the signals disagree
+ * (noindex in the sitemap, a canonical to a redirect, a canonical chain) or
+ * leave Google to guess (a parameterized URL with no canonical).
+ */
+export const classifyIndexability = (
+    pages: PageSnapshot[],
+    statusResults: UrlStatusResult[],
+    sitemapUrls: string[]
+): IndexabilityResult[] => {
+    const statusByUrl = new Map(statusResults.map(result => [normalizeUrl(result.url), result]));
+    const pageByUrl = new Map(pages.filter(isFetched).map(page => [normalizeUrl(page.url), page]));
+    const inSitemap = new Set(sitemapUrls.map(url => normalizeUrl(url)));
+
+    const noindexSource = (page: PageSnapshot | undefined, status: UrlStatusResult | undefined): string | null => {
+        if (page?.metaRobots && NOINDEX.test(page.metaRobots)) return `meta robots "${page.metaRobots}"`;
+        if (status?.xRobotsTag && NOINDEX.test(status.xRobotsTag)) return `X-Robots-Tag "${status.xRobotsTag}"`;
+        return null;
+    };
+
+    return pages.filter(isFetched).map(page => {
+        const url = normalizeUrl(page.url) ?? page.url;
+        const status = statusByUrl.get(url);
+        const canonical = page.canonical && normalizeUrl(page.canonical);
+        const noindex = noindexSource(page, status);
+        const result = (indexability: IndexabilityResult['indexability'], code: IndexabilityCode, reason: string, evidence: string[]): IndexabilityResult =>
+            ({ url: page.url, indexability, code, reason, evidence, canonical: page.canonical });
+
+        const httpStatus = status?.status ?? page.status;
+        if (httpStatus === null || httpStatus >= 400) {
+            return result('non_indexable', 'error_status', 'Does not return a page', [`HTTP ${status ? describeStatus(status) : `returns ${page.status}`}`]);
+        }
+        if (status && status.hops > 0) {
+            return result('non_indexable', 'redirect', 'Redirects elsewhere', [`HTTP ${describeStatus(status)}`]);
+        }
+
+        if (noindex) {
+            if (canonical && canonical !== url) {
+                return result('conflicting', 'noindex_with_canonical', 'Noindexed but canonicalized to another URL; Google may carry the noindex over to the canonical', [noindex, `Canonical: ${canonical}`]);
+            }
+            if (inSitemap.has(url)) {
+                return result('conflicting', 'noindex_in_sitemap', 'Listed in the sitemap but noindexed', [noindex, 'Listed in the sitemap']);
+            }
+            return result('non_indexable', 'noindex', 'Noindexed', [noindex]);
+        }
+
+        if (!canonical) {
+            return hasParameters(page.url)
+                ? result('conflicting', 'parameterized_without_canonical', 'Parameterized URL without a canonical; Google picks one itself and may index duplicates', ['No rel="canonical"', `Query string: ${new URL(page.url).search}`])
+                : result('indexable', 'no_canonical', 'Indexable, but without a self-referencing canonical', [`HTTP ${httpStatus}`, 'No rel="canonical"']);
+        }
+        if (canonical === url) {
+            return result('indexable', 'indexable', 'Indexable with a self-referencing canonical', [`HTTP ${httpStatus}`, 'Canonical: self']);
+        }
+
+        // Canonicalized elsewhere: whether that is sound depends on the target
+        const targetStatus = statusByUrl.get(canonical);
+        const targetPage = pageByUrl.get(canonical);
+        const evidence = [`Canonical: ${canonical}`];
+        if (targetStatus && (targetStatus.status === null || targetStatus.status >= 400)) {
+            return result('conflicting', 'canonical_to_error', 'Canonical points at a URL that does not return a page', [...evidence, `Canonical target ${describeStatus(targetStatus)}`]);
+        }
+        if (targetStatus && targetStatus.hops > 0) {
+            return result('conflicting', 'canonical_to_redirect', 'Canonical points at a redirect', [...evidence, `Canonical target ${describeStatus(targetStatus)}`]);
+        }
+        const targetNoindex = noindexSource(targetPage, targetStatus);
+        if (targetNoindex) {
+            return result('conflicting', 'canonical_to_noindex', 'Canonical points at a noindexed page', [...evidence, `Canonical target has ${targetNoindex}`]);
+        }
+        const targetCanonical = targetPage?.canonical && normalizeUrl(targetPage.canonical);
+        if (targetCanonical && targetCanonical !== canonical) {
+            return result('conflicting', 'canonical_chain', 'Canonical chain: the canonical target declares a different canonical', [...evidence, `${canonical} → ${targetCanonical}`]);
+        }
+        return inSitemap.has(url)
+            ? result('non_indexable', 'canonicalized', 'Canonicalized to another URL but listed in the sitemap', [...evidence, 'Listed in the sitemap'])
+            : result('non_indexable', 'canonicalized', 'Canonicalized to another URL', evidence);
+    });
+};
+
+const formatEvidence = (r: IndexabilityResult) => `${r.url}: ${r.evidence.join('; ')}`;
+
+/**
+ * Turn the indexability results into technical action items. Error statuses,
+ * redirects and X-Robots-Tag noindex are left to the status check findings,
+ * which already report them.
+ */
+export const toIndexabilityActionItems = (results: IndexabilityResult[]): ActionItem[] => {
+    const items: ActionItem[] = [];
+    const add = (codes: IndexabilityCode[], item: (count: number) => string, priority: ActionItem['priority'], filter: (r: IndexabilityResult) => boolean = () => true) => {
+        const matches = results.filter(r => codes.includes(r.code) && filter(r));
+        if (matches.length === 0) return;
+        items.push({ item: item(matches.length), priority, evidence: matches.slice(0, MAX_EVIDENCE).map(formatEvidence) });
+    };
+
+    add(['canonical_to_error', 'canonical_to_redirect', 'canonical_to_noindex'], n => `Point ${pluralize(n, 'canonical')} at live, indexable URLs instead of redirects, errors or noindexed pages`, 'high');
+    add(['canonical_chain'], n => `Collapse ${pluralize(n, 'canonical chain')} so each page names the final canonical directly`, 'high');
+    add(['noindex_with_canonical'], n => `Resolve ${pluralize(n, 'page')} that combine noindex with a canonical to another URL`, 'high');
+    add(['noindex_in_sitemap'], n => `Remove ${pluralize(n, 'noindexed page')} from the sitemap, or lift the noindex if they should rank`, 'high', r => r.evidence[0].startsWith('meta robots'));
+    add(['parameterized_without_canonical'], n => `Add canonicals to ${pluralize(n, 'parameterized URL')}`, 'medium');
+    add(['canonicalized'], n => `Replace ${pluralize(n, 'canonicalized URL')} in the sitemap with their canonicals`, 'medium', r => r.evidence.includes('Listed in the sitemap'));
+    add(['no_canonical'], n => `Add self-referencing canonicals to ${pluralize(n, 'page')}`, 'low');
+    return items;
+};
+
+// Conflicting signals leave Google to guess, so the audit can't stay "good"
+export const applyIndexabilityFindings = (audit: TechnicalAudit, results: IndexabilityResult[]): TechnicalAudit =>
+    applyFindings(audit, toIndexabilityActionItems(results), results.some(r => r.indexability === 'conflicting'));
+
+// Codes that call for changing the page's canonical tag or robots directives
+const CANONICAL_FIXES: Partial<Record<IndexabilityCode, { fix: string; priority: PageAction['priority'] }>> = {
+    canonical_to_error: { fix: 'Point the canonical at the live version of this content, or at this page itself.', priority: 'high' },
+    canonical_to_redirect: { fix: 'Point the canonical at the redirect\'s final destination.', priority: 'high' },
+    canonical_to_noindex: { fix: 'Point the canonical at an indexable page, or lift the noindex on the target.', priority: 'high' },
+    canonical_chain: { fix: 'Point the canonical straight at the end of the chain.', priority: 'high' },
+    noindex_with_canonical: { fix: 'Keep either the noindex or the canonical, not both.', priority: 'high' },
+    parameterized_without_canonical: { fix: 'Add a canonical to the parameter-free version of this page.', priority: 'medium' },
+};
+
+/**
+ * One 'canonical' page action per URL whose canonical or robots signals need fixing.
+ */
+export const toCanonicalActions = (results: IndexabilityResult[]): PageAction[] =>
+    results.flatMap(r => {
+        const fix = CANONICAL_FIXES[r.code];
+        if (!fix) return [];
+        return [{
+            url: r.url,
+            priority: fix.priority,
+            source: 'indexability' as const,
+            rewriteDetails: {
+                reason: `${r.reason}. ${fix.fix}`,
+                evidence: r.evidence.join('. '),
+                suggestedHeadline: '',
+                action: 'canonical' as const,
+                owner: 'dev' as const,
+            },
+        }];
+    });
@@ -0,0 +1,134 @@
+import type { GraphData, Node, PageSnapshot } from '../types';
+import { isHomepage, pathSection } from '../utils/urlUtils';
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE_THRESHOLD = 1e-6;
+// Pages beyond the homepage promoted to 'pillar': the top scorers above average PageRank
+const MAX_HUB_PAGES = 5;
+
+/**
+ * Key used to match links to pages: ignores protocol, "www.", trailing slashes
+ * and fragments, which sites mix freely between sitemaps and navigation.
+ */
+const pageKey = (url: string): string | null => {
+    try {
+        const u = new URL(url);
+        return `${u.hostname.replace(/^www\./, '').toLowerCase()}${u.pathname.replace(/\/+$/, '')}${u.search}`;
+    } catch {
+        return null;
+    }
+};
+
+const pageLabel = (url: string): string => {
+    try {
+        const segments = new URL(url).pathname.split('/').filter(Boolean);
+        if (segments.length === 0) return 'Homepage';
+        const last = decodeURIComponent(segments[segments.length - 1]).replace(/\.\w+$/, '');
+        return last.replace(/[-_]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+    } catch {
+        return url;
+    }
+};
+
+/**
+ * Standard PageRank by power iteration. Pages without outlinks spread their
+ * score evenly over all pages, so the scores always sum to 1.
+ */
+const computePageRank = (outlinks: number[][]): number[] => {
+    const n = outlinks.length;
+    let ranks = new Array(n).fill(1 / n);
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        const next = new Array(n).fill((1 - DAMPING) / n);
+        let danglingRank = 0;
+        outlinks.forEach((targets, i) => {
+            if (targets.length === 0) {
+                danglingRank += ranks[i];
+                return;
+            }
+            const share = DAMPING * ranks[i] / targets.length;
+            targets.forEach(j => { next[j] += share; });
+        });
+        const danglingShare = DAMPING * danglingRank / n;
+        let delta = 0;
+        for (let i = 0; i < n; i++) {
+            next[i] += danglingShare;
+            delta += Math.abs(next[i] - ranks[i]);
+        }
+        ranks = next;
+        if (delta < CONVERGENCE_THRESHOLD) break;
+    }
+    return ranks;
+};
+
+/**
+ * Build the internal link graph between the crawled pages from the anchors
+ * in their HTML. Only links between crawled pages count, so 'orphan' nodes are
+ * only "not linked from any other sampled page" (pages outside the sample may
+ * link to them) and depths are upper bounds: a shorter path may run through
+ * pages outside the sample.
+ */
+export const buildLinkGraph = (pages: PageSnapshot[]): GraphData => {
+    const crawled = pages.filter(page => page.status !== null);
+    const indexByKey = new Map<string, number>();
+    crawled.forEach((page, i) => {
+        const key = pageKey(page.url);
+        if (key && !indexByKey.has(key)) indexByKey.set(key, i);
+    });
+
+    const outlinks: number[][] = crawled.map((page, i) => {
+        const targets = new Set<number>();
+        page.internalLinks.forEach(link => {
+            const key = pageKey(link);
+            const target = key ? indexByKey.get(key) : undefined;
+            if (target !== undefined && target !== i) targets.add(target);
+        });
+        return [...targets];
+    });
+
+    const inlinks = new Array(crawled.length).fill(0);
+    outlinks.forEach(targets => targets.forEach(j => { inlinks[j]++; }));
+
+    // Breadth-first from the homepage; the first link to reach a page is its tree edge
+    const homepage = crawled.findIndex(page => isHomepage(page.url));
+    const depths: (number | null)[] = new Array(crawled.length).fill(null);
+    const parents: (number | null)[] = new Array(crawled.length).fill(null);
+    if (homepage !== -1) {
+        depths[homepage] = 0;
+        const queue = [homepage];
+        for (let head = 0; head < queue.length; head++) {
+            const current = queue[head];
+            for (const next of outlinks[current]) {
+                if (depths[next] !== null) continue;
+                depths[next] = depths[current]! + 1;
+                parents[next] = current;
+                queue.push(next);
+            }
+        }
+    }
+
+    const ranks = crawled.length > 0 ? computePageRank(outlinks) : [];
+    const hubs = new Set(
+        ranks.map((rank, i) => ({ rank, i }))
+            .filter(({ rank, i }) => i !== homepage && inlinks[i] > 0 && rank * crawled.length > 1)
+            .sort((a, b) => b.rank - a.rank)
+            .slice(0, MAX_HUB_PAGES)
+            .map(({ i }) => i)
+    );
+
+    const nodes: Node[] = crawled.map((page, i) => ({
+        id: page.url,
+        label: pageLabel(page.url),
+        type: i === homepage || hubs.has(i) ? 'pillar' : inlinks[i] === 0 ? 'orphan' : 'cluster',
+        cluster: pathSection(page.url),
+        depth: depths[i],
+        inlinks: inlinks[i],
+        pageRank: Math.round(ranks[i] * crawled.length * 100) / 100,
+    }));
+
+    return {
+        nodes,
+        edges: parents.flatMap((parent, i) => parent === null ? [] : [{ source: crawled[parent].url, target: crawled[i].url }]),
+        linkCount: outlinks.reduce((sum, targets) => sum + targets.length, 0),
+    };
+};
@@ -0,0 +1,141 @@
+import type { PageSnapshot } from '../types';
+import { fetchUrl } from './fetchTransport';
+import { extractStructuredData } from './structuredDataService';
+import { normalizeUrl } from '../utils/urlUtils';
+
+// Page fetches may go through a shared proxy, so stay polite
+const PAGE_FETCH_CONCURRENCY = 6;
+const PAGE_FETCH_TIMEOUT_MS = 20000;
+// Enough text to fingerprint a long article without holding whole pages in memory
+const MAX_MAIN_TEXT_CHARS = 100000;
+
+const textOf = (el: Element | null): string => el?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+/**
+ * Extract the typed on-page signals from raw HTML.
+ */
+export const parsePageSnapshot = (url: string, html: string, status: number | null = 200): PageSnapshot => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const baseHref = doc.querySelector('base[href]')?.getAttribute('href');
+    const baseUrl = (baseHref && normalizeUrl(baseHref, url)) || url;
+    const host = new URL(url).hostname.replace(/^www\./, '');
+
+    const internalLinks = new Set<string>();
+    const externalLinks = new Set<string>();
+    doc.querySelectorAll('a[href]').forEach(a => {
+        const link = normalizeUrl(a.getAttribute('href')!, baseUrl);
+        if (!link) return;
+        const linkHost = new URL(link).hostname.replace(/^www\./, '');
+        (linkHost === host ? internalLinks : externalLinks).add(link);
+    });
+
+    // Before scripts are stripped below: JSON-LD lives in them
+    const structuredData = extractStructuredData(doc, baseUrl);
+
+    const canonicalHref = doc.querySelector('link[rel="canonical"]')?.getAttribute('href');
+
+    // Count words in the visible body text only
+    doc.querySelectorAll('script, style, noscript, template, svg').forEach(el => el.remove());
+    const bodyText = doc.body?.textContent || '';
+    const wordCount = bodyText.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+    // Main content: the page's <main> or <article>, or else the body without its site chrome
+    const mainRoot = doc.querySelector('main, [role="main"], article');
+    if (!mainRoot) {
+        doc.querySelectorAll('header, footer, nav, aside, [role="navigation"], [role="banner"], [role="contentinfo"]').forEach(el => el.remove());
+    }
+    const mainText = textOf(mainRoot ?? doc.body).slice(0, MAX_MAIN_TEXT_CHARS);
+
+    return {
+        url,
+        status,
+        title: textOf(doc.querySelector('title')),
+        metaDescription: doc.querySelector('meta[name="description" i]')?.getAttribute('content')?.trim() || '',
+        headings: {
+            h1: Array.from(doc.querySelectorAll('h1')).map(textOf).filter(Boolean),
+            h2: Array.from(doc.querySelectorAll('h2')).map(textOf).filter(Boolean),
+            h3: Array.from(doc.querySelectorAll('h3')).map(textOf).filter(Boolean),
+        },
+        canonical: canonicalHref ? normalizeUrl(canonicalHref, baseUrl) : null,
+        metaRobots: doc.querySelector('meta[name="robots" i]')?.getAttribute('content')?.trim() || null,
+        hreflang: Array.from(doc.querySelectorAll('link[rel="alternate"][hreflang]'))
+            .map(link => ({ lang: link.getAttribute('hreflang') || '', href: normalizeUrl(link.getAttribute('href') || '', baseUrl) || '' }))
+            .filter(h => h.lang && h.href),
+        wordCount,
+        mainText,
+        internalLinks: [...internalLinks],
+        externalLinks: [...externalLinks],
+        structuredData: structuredData.items,
+        jsonLdErrors: structuredData.jsonLdErrors,
+        fetchedAt: new Date().toISOString(),
+    };
+};
+
+const emptySnapshot = (url: string, fetchError: string): PageSnapshot => ({
+    url,
+    status: null,
+    fetchError,
+    title: '',
+    metaDescription: '',
+    headings: { h1: [], h2: [], h3: [] },
+    canonical: null,
+    metaRobots: null,
+    hreflang: [],
+    wordCount: 0,
+    mainText: '',
+    internalLinks: [],
+    externalLinks: [],
+    structuredData: [],
+    jsonLdErrors: [],
+    fetchedAt: new Date().toISOString(),
+});
+
+/**
+ * Download one page and extract its snapshot. Never throws: fetch failures
+ * are recorded on the snapshot so the audit can report them.
+ */
+export const fetchPageSnapshot = async (url: string, signal?: AbortSignal): Promise<PageSnapshot> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+        const response = await fetchUrl(url, controller.signal);
+        const html = await response.text();
+        return parsePageSnapshot(url, html, response.status);
+    } catch (e) {
+        const message = controller.signal.aborted && !signal?.aborted
+            ? `Timed out after ${PAGE_FETCH_TIMEOUT_MS / 1000}s`
+            : e instanceof Error ? e.message : 'Unknown error';
+        console.warn(`[PageFetcher] Failed to fetch ${url}:`, message);
+        return emptySnapshot(url, message);
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Fetch snapshots for many pages with bounded concurrency, preserving input order.
+ */
+export const fetchPageSnapshots = async (
+    urls: string[],
+    onProgress: (done: number, total: number) => void = () => {},
+    signal?: AbortSignal
+): Promise<PageSnapshot[]> => {
+    const snapshots: PageSnapshot[] = new Array(urls.length);
+    let nextIndex = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (nextIndex < urls.length && !signal?.aborted) {
+            const index = nextIndex++;
+            snapshots[index] = await fetchPageSnapshot(urls[index], signal);
+            onProgress(++done, urls.length);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(PAGE_FETCH_CONCURRENCY, urls.length) }, worker));
+    return snapshots.filter(Boolean);
+};
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import type { ExecutiveSummaryRedirect, UrlStatusResult } from '../types';
+import { exportRedirectMap, validateRedirects } from './redirectMapService';
+
+const redirect = (from: string, to: string, reason = 'Consolidated'): ExecutiveSummaryRedirect => ({ from, to, reason });
+
+const status = (url: string, code: number | null, finalUrl = url): UrlStatusResult => ({
+    url,
+    finalUrl,
+    status: code,
+    redirectChain: [],
+    hops: finalUrl === url ? 0 : 1,
+    xRobotsTag: null,
+    observedVia: 'proxy',
+    chainObserved: true,
+});
+
+describe('validateRedirects', () => {
+    it('resolves relative URLs against the first absolute URL and drops self-redirects and invalid pairs', () => {
+        const map = validateRedirects([
+            redirect('/old', '/new'),
+            redirect('https://example.com/blog#top', '/articles'),
+            redirect('/same', 'https://example.com/same'),
+            redirect('mailto:team@example.com', '/contact'),
+        ]);
+
+        expect(map.rules.map(r => [r.from, r.to])).toEqual([
+            ['https://example.com/old', 'https://example.com/new'],
+            ['https://example.com/blog', 'https://example.com/articles'],
+        ]);
+        expect(map.issues.map(i => [i.type, i.severity, i.from])).toEqual([
+            ['self_redirect', 'warning', 'https://example.com/same'],
+            ['invalid_url', 'error', 'mailto:team@example.com'],
+        ]);
+    });
+
+    it('collapses chains to their final target', () => {
+        const map = validateRedirects([
+            redirect('https://example.com/a', '/b'),
+            redirect('/b', '/c'),
+            redirect('/c', '/d'),
+        ]);
+
+        expect(map.rules).toEqual([
+            { from: 'https://example.com/a', to: 'https://example.com/d', reason: 'Consolidated', collapsed: ['https://example.com/b', 'https://example.com/c'] },
+            { from: 'https://example.com/b', to: 'https://example.com/d', reason: 'Consolidated', collapsed: ['https://example.com/c'] },
+            { from: 'https://example.com/c', to: 'https://example.com/d', reason: 'Consolidated', collapsed: [] },
+        ]);
+        expect(map.issues).toEqual([
+            { type: 'chain', severity: 'warning', from: 'https://example.com/a', message: 'Chain through https://example.com/b → https://example.com/c; exported straight to https://example.com/d' },
+            { type: 'chain', severity: 'warning', from: 'https://example.com/b', message: 'Chain through https://example.com/c; exported straight to https://example.com/d' },
+        ]);
+    });
+
+    it('leaves loops out of the rules', () => {
+        const map = validateRedirects([
+            redirect('https://example.com/x', '/y'),
+            redirect('/y', '/x'),
+            redirect('/z', '/final'),
+        ]);
+
+        expect(map.rules.map(r => r.from)).toEqual(['https://example.com/z']);
+        expect(map.issues).toEqual([
+            { type: 'loop', severity: 'error', from: 'https://example.com/x', message: 'Redirect loop: https://example.com/x → https://example.com/y → https://example.com/x; not exported' },
+            { type: 'loop', severity: 'error', from: 'https://example.com/y', message: 'Redirect loop: https://example.com/y → https://example.com/x → https://example.com/y; not exported' },
+        ]);
+    });
+
+    it('keeps the first target of conflicting sources and one copy of duplicates', () => {
+        const map = validateRedirects([
+            redirect('https://example.com/p', '/q'),
+            redirect('/p', '/r'),
+            redirect('/p', '/q'),
+        ]);
+
+        expect(map.rules.map(r => [r.from, r.to])).toEqual([['https://example.com/p', 'https://example.com/q']]);
+        expect(map.issues).toEqual([
+            { type: 'conflict', severity: 'error', from: 'https://example.com/p', message: 'Also redirected to https://example.com/r; kept https://example.com/q' },
+            { type: 'duplicate', severity: 'warning', from: 'https://example.com/p', message: 'Listed more than once; kept one' },
+        ]);
+    });
+
+    it('replaces redirecting targets with where they end up and drops failing ones', () => {
+        const map = validateRedirects([
+            redirect('https://example.com/one', '/moved'),
+            redirect('/two', '/gone'),
+            redirect('/three', '/down'),
+            redirect('/four', '/back'),
+            redirect('/five', '/fine'),
+            redirect('/six', '/unchecked'),
+        ], [
+            status('https://example.com/moved', 200, 'https://example.com/final'),
+            status('https://example.com/gone', 404),
+            { ...status('https://example.com/down', null), error: 'Timed out' },
+            status('https://example.com/back', 200, 'https://example.com/four'),
+            status('https://example.com/fine', 200),
+        ]);
+
+        expect(map.targetsChecked).toBe(5);
+        expect(map.rules).toEqual([
+            { from: 'https://example.com/one', to: 'https://example.com/final', reason: 'Consolidated', collapsed: ['https://example.com/moved'] },
+            { from: 'https://example.com/five', to: 'https://example.com/fine', reason: 'Consolidated', collapsed: [] },
+            { from: 'https://example.com/six', to: 'https://example.com/unchecked', reason: 'Consolidated', collapsed: [] },
+        ]);
+        expect(map.issues).toEqual([
+            { type: 'target_redirects', severity: 'warning', from: 'https://example.com/one', message: 'Target https://example.com/moved redirects to https://example.com/final (200); exported straight to https://example.com/final' },
+            { type: 'target_error', severity: 'error', from: 'https://example.com/two', message: 'Target https://example.com/gone returns 404; not exported' },
+            { type: 'target_error', severity: 'error', from: 'https://example.com/three', message: 'Target https://example.com/down Timed out; not exported' },
+            { type: 'loop', severity: 'error', from: 'https://example.com/four', message: 'Target https://example.com/back redirects back to https://example.com/four; not exported' },
+        ]);
+    });
+});
+
+describe('exportRedirectMap', () => {
+    // Same-site and cross-site targets, a query string, a non-ASCII path, and the characters each format escapes
+    const map = validateRedirects([
+        redirect('https://example.com/old-page', '/new-page', 'Merged into the new page'),
+        redirect('/café?ref=a&x=1', 'https://example.com/landing', 'Campaign URL'),
+        redirect('/price$', 'https://other.com/a%20b?x=$1', 'Moved to the shop'),
+        redirect('/wiki/Foo_(bar).html', '/wiki/foo', 'Renamed'),
+        redirect('/quote"d', '/new', 'Typo in the slug'),
+    ]);
+
+    it('writes exact-match mod_rewrite rules for Apache', () => {
+        expect(exportRedirectMap(map, 'htaccess')).toBe([
+            '# 301 redirects, each matching its exact path (and query string, where given).',
+            'RewriteEngine On',
+            'RewriteCond %{QUERY_STRING} ^ref=a&x=1$',
+            'RewriteRule "^café$" "/landing?" [R=301,NE,L]',
+            'RewriteRule "^old-page$" "/new-page" [R=301,NE,L]',
+            'RewriteRule "^price\\$$" "https://other.com/a\\%20b?x=\\$1" [R=301,NE,L]',
+            'RewriteRule "^wiki/Foo_\\(bar\\)\\.html$" "/wiki/foo" [R=301,NE,L]',
+            'RewriteRule "^quote\\"d$" "/new" [R=301,NE,L]',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes an nginx map keyed on the request URI, with "$" kept literal', () => {
+        expect(exportRedirectMap(map, 'nginx')).toBe([
+            '# In the http block',
+            'geo $redirect_dollar { default "$"; }',
+            'map $request_uri $redirect_target {',
+            '    default "";',
+            '    "/old-page" "/new-page";',
+            '    "/caf%C3%A9?ref=a&x=1" "/landing";',
+            '    "/price$" "https://other.com/a%20b?x=${redirect_dollar}1";',
+            '    "/wiki/Foo_(bar).html" "/wiki/foo";',
+            '    "/quote%22d" "/new";',
+            '}',
+            '',
+            '# In the server block',
+            'if ($redirect_target) {',
+            '    return 301 $redirect_target;',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    it('only declares the nginx "$" variable when a target needs it', () => {
+        const plain = validateRedirects([redirect('https://example.com/a', '/b')]);
+        expect(exportRedirectMap(plain, 'nginx')).not.toContain('geo');
+    });
+
+    it('writes Netlify _redirects lines with query parameters as key=value pairs', () => {
+        expect(exportRedirectMap(map, 'netlify')).toBe([
+            '/old-page  /new-page  301',
+            '/caf%C3%A9  ref=a x=1  /landing  301',
+            '/price$  https://other.com/a%20b?x=$1  301',
+            '/wiki/Foo_(bar).html  /wiki/foo  301',
+            '/quote%22d  /new  301',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes Vercel redirects with escaped source patterns and query conditions', () => {
+        const output = exportRedirectMap(map, 'vercel');
+        expect(output.endsWith('}\n')).toBe(true);
+        expect(JSON.parse(output)).toEqual({
+            redirects: [
+                { source: '/old-page', destination: '/new-page', permanent: true },
+                {
+                    source: '/caf%C3%A9',
+                    has: [{ type: 'query', key: 'ref', value: 'a' }, { type: 'query', key: 'x', value: '1' }],
+                    destination: '/landing',
+                    permanent: true,
+                },
+                { source: '/price$', destination: 'https://other.com/a%20b?x=$1', permanent: true },
+                { source: '/wiki/Foo_\\(bar\\).html', destination: '/wiki/foo', permanent: true },
+                { source: '/quote%22d', destination: '/new', permanent: true },
+            ],
+        });
+    });
+
+    it('writes Cloudflare bulk redirects as quoted CSV with absolute targets', () => {
+        expect(exportRedirectMap(map, 'cloudflare')).toBe([
+            '"example.com/old-page","https://example.com/new-page",301',
+            '"example.com/caf%C3%A9?ref=a&x=1","https://example.com/landing",301',
+            '"example.com/price$","https://other.com/a%20b?x=$1",301',
+            '"example.com/wiki/Foo_(bar).html","https://example.com/wiki/foo",301',
+            '"example.com/quote%22d","https://example.com/new",301',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes a WordPress Redirection import with exact, non-regex matches', () => {
+        const { groups, redirects } = JSON.parse(exportRedirectMap(map, 'wordpress'));
+        expect(groups).toEqual([{ id: 1, name: 'Redirections', module_id: 1, enabled: true }]);
+        expect(redirects[0]).toEqual({
+            id: 1,
+            url: '/old-page',
+            match_url: '/old-page',
+            match_data: { source: { flag_query: 'exact', flag_case: false, flag_trailing: false, flag_regex: false } },
+            action_code: 301,
+            action_type: 'url',
+            action_data: { url: '/new-page' },
+            match_type: 'url',
+            title: 'Merged into the new page',
+            regex: false,
+            group_id: 1,
+            position: 0,
+            enabled: true,
+        });
+        expect(redirects.map((r: { url: string; action_data: { url: string }; position: number }) => [r.url, r.action_data.url, r.position])).toEqual([
+            ['/old-page', '/new-page', 0],
+            ['/caf%C3%A9?ref=a&x=1', '/landing', 1],
+            ['/price$', 'https://other.com/a%20b?x=$1', 2],
+            ['/wiki/Foo_(bar).html', '/wiki/foo', 3],
+            ['/quote%22d', '/new', 4],
+        ]);
+    });
+});
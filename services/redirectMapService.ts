@@ -0,0 +1,220 @@
+import type { ExecutiveSummaryRedirect, RedirectExportFormat, RedirectIssue, RedirectMap, RedirectRule, UrlStatusResult } from '../types';
+import { checkUrlStatuses } from './statusCheckService';
+import { describeStatus } from '../utils/auditFindings';
+import { normalizeUrl } from '../utils/urlUtils';
+
+export const REDIRECT_EXPORT_FORMATS: Record<RedirectExportFormat, { label: string; filename: string }> = {
+    htaccess: { label: 'Apache .htaccess', filename: '.htaccess' },
+    nginx: { label: 'nginx map', filename: 'redirects.nginx.conf' },
+    netlify: { label: 'Netlify _redirects', filename: '_redirects' },
+    vercel: { label: 'Vercel vercel.json', filename: 'vercel.json' },
+    cloudflare: { label: 'Cloudflare bulk redirects (CSV)', filename: 'cloudflare-bulk-redirects.csv' },
+    wordpress: { label: 'WordPress Redirection (JSON)', filename: 'redirection.json' },
+};
+
+const toUrl = (value: string, base?: string): URL | null => {
+    const url = normalizeUrl(value.trim(), base);
+    return url ? new URL(url) : null;
+};
+
+/**
+ * Normalize redirect pairs and check them as a whole: self-redirects and
+ * duplicates are dropped, conflicting sources keep their first target, chains
+ * are collapsed to their final target and loops are left out. With live status
+ * results for the targets, targets that redirect are replaced by where they
+ * end up and targets that fail are left out. Relative URLs resolve against the
+ * first absolute URL in the list.
+ */
+export const validateRedirects = (redirects: ExecutiveSummaryRedirect[], targetStatuses: UrlStatusResult[] = []): RedirectMap => {
+    const issues: RedirectIssue[] = [];
+    const issue = (type: RedirectIssue['type'], severity: RedirectIssue['severity'], from: string, message: string) =>
+        issues.push({ type, severity, from, message });
+
+    const origin = redirects.flatMap(r => [r.from, r.to]).map(value => toUrl(value)).find(Boolean)?.origin;
+    const byFrom = new Map<string, RedirectRule>();
+    for (const redirect of redirects) {
+        const from = toUrl(redirect.from, origin);
+        const to = from && toUrl(redirect.to, from.href);
+        if (!from || !to) {
+            issue('invalid_url', 'error', redirect.from, `Not a valid URL pair: "${redirect.from}" → "${redirect.to}"`);
+            continue;
+        }
+        if (from.href === to.href) {
+            issue('self_redirect', 'warning', from.href, 'Redirects to itself; dropped');
+            continue;
+        }
+        const existing = byFrom.get(from.href);
+        if (existing) {
+            if (existing.to === to.href) issue('duplicate', 'warning', from.href, 'Listed more than once; kept one');
+            else issue('conflict', 'error', from.href, `Also redirected to ${to.href}; kept ${existing.to}`);
+            continue;
+        }
+        byFrom.set(from.href, { from: from.href, to: to.href, reason: redirect.reason, collapsed: [] });
+    }
+
+    const statusByUrl = new Map(targetStatuses.map(result => [toUrl(result.url)?.href, result]));
+    const rules: RedirectRule[] = [];
+    let targetsChecked = 0;
+    for (const rule of byFrom.values()) {
+        // Follow the target through the other rules: a chain ends at a URL no rule redirects
+        const path = [rule.from];
+        let target = rule.to;
+        while (byFrom.has(target) && !path.includes(target)) {
+            path.push(target);
+            target = byFrom.get(target)!.to;
+        }
+        if (path.includes(target)) {
+            issue('loop', 'error', rule.from, `Redirect loop: ${[...path, target].join(' → ')}; not exported`);
+            continue;
+        }
+        const collapsed = path.slice(1);
+        if (collapsed.length > 0) {
+            issue('chain', 'warning', rule.from, `Chain through ${collapsed.join(' → ')}; exported straight to ${target}`);
+        }
+
+        const status = statusByUrl.get(target);
+        if (status) targetsChecked++;
+        if (status && (status.status === null || status.status >= 400)) {
+            issue('target_error', 'error', rule.from, `Target ${target} ${describeStatus(status)}; not exported`);
+            continue;
+        }
+        if (status && status.hops > 0) {
+            const finalUrl = toUrl(status.finalUrl)?.href ?? status.finalUrl;
+            if (finalUrl === rule.from) {
+                issue('loop', 'error', rule.from, `Target ${target} redirects back to ${rule.from}; not exported`);
+                continue;
+            }
+            issue('target_redirects', 'warning', rule.from, `Target ${target} ${describeStatus(status)}; exported straight to ${finalUrl}`);
+            collapsed.push(target);
+            target = finalUrl;
+        }
+        rules.push({ ...rule, to: target, collapsed });
+    }
+
+    return { rules, issues, targetsChecked };
+};
+
+/**
+ * Validate the redirects, then check each final target on the live site and validate again with the results.
+ */
+export const checkRedirectMap = async (redirects: ExecutiveSummaryRedirect[], signal?: AbortSignal): Promise<RedirectMap> => {
+    const targets = [...new Set(validateRedirects(redirects).rules.map(rule => rule.to))];
+    const statuses = targets.length > 0 ? await checkUrlStatuses(targets, undefined, signal) : [];
+    return validateRedirects(redirects, statuses);
+};
+
+// --- EXPORTERS ---
+
+const pathOf = (url: URL) => `${url.pathname}${url.search}`;
+
+// Apache matches rules against the decoded path
+const decodedPath = (url: URL) => {
+    try {
+        return decodeURIComponent(url.pathname);
+    } catch {
+        return url.pathname;
+    }
+};
+
+// Same-site targets are written as paths, so the config keeps working across environments
+const targetOf = (from: URL, to: URL) => from.origin === to.origin ? pathOf(to) : to.href;
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+// Apache only unescapes quotes inside a quoted argument; other backslashes reach the regex engine as written
+const apacheQuote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const parsedRules = (map: RedirectMap) => map.rules.map(rule => ({ rule, from: new URL(rule.from), to: new URL(rule.to) }));
+
+// mod_rewrite rather than mod_alias: "Redirect /old /new" matches by prefix, so it would
+// also send /old/page to /new/page, and a rule for / would redirect the whole site
+const toHtaccess = (map: RedirectMap): string => {
+    const lines = ['# 301 redirects, each matching its exact path (and query string, where given).', 'RewriteEngine On'];
+    // Rules with a query string go first, so they win over a rule for the same bare path
+    const rules = parsedRules(map).sort((a, b) => Number(!!b.from.search) - Number(!!a.from.search));
+    rules.forEach(({ from, to }) => {
+        // "$1" and "%1" would be backreferences; NE keeps the already percent-encoded target as it is.
+        // A trailing "?" drops the old query string when the target has none of its own
+        const target = targetOf(from, to).replace(/[$%]/g, '\\$&') + (from.search && !to.search ? '?' : '');
+        if (from.search) lines.push(`RewriteCond %{QUERY_STRING} ^${escapeRegex(from.search.slice(1))}$`);
+        lines.push(`RewriteRule ${apacheQuote(`^${escapeRegex(decodedPath(from).slice(1))}$`)} ${apacheQuote(target)} [R=301,NE,L]`);
+    });
+    return `${lines.join('\n')}\n`;
+};
+
+// nginx expands variables in map values and has no escape for "$", so it comes from a geo value, which is literal
+const NGINX_DOLLAR = '${redirect_dollar}';
+
+const toNginx = (map: RedirectMap): string => {
+    const rules = parsedRules(map).map(({ from, to }) => ({ from: pathOf(from), target: targetOf(from, to) }));
+    const needsDollar = rules.some(({ target }) => target.includes('$'));
+    return [
+        '# In the http block',
+        ...(needsDollar ? ['geo $redirect_dollar { default "$"; }'] : []),
+        'map $request_uri $redirect_target {',
+        '    default "";',
+        ...rules.map(({ from, target }) => `    ${quote(from)} ${quote(target.replace(/\$/g, () => NGINX_DOLLAR))};`),
+        '}',
+        '',
+        '# In the server block',
+        'if ($redirect_target) {',
+        '    return 301 $redirect_target;',
+        '}',
+        '',
+    ].join('\n');
+};
+
+const toNetlify = (map: RedirectMap): string =>
+    parsedRules(map).map(({ from, to }) => {
+        // Netlify matches query parameters as space-separated key=value pairs, still encoded
+        const query = from.search.slice(1).split('&').filter(Boolean).join(' ');
+        return [from.pathname, query, targetOf(from, to), '301'].filter(Boolean).join('  ');
+    }).join('\n') + '\n';
+
+const toVercel = (map: RedirectMap): string => JSON.stringify({
+    redirects: parsedRules(map).map(({ from, to }) => ({
+        // Sources are path-to-regexp patterns
+        source: from.pathname.replace(/[:*+?(){}\\]/g, '\\$&'),
+        ...(from.search ? { has: [...from.searchParams].map(([key, value]) => ({ type: 'query', key, value })) } : {}),
+        destination: targetOf(from, to),
+        permanent: true,
+    })),
+}, null, 2) + '\n';
+
+const toCloudflare = (map: RedirectMap): string =>
+    parsedRules(map).map(({ from, to }) => [csvField(`${from.host}${pathOf(from)}`), csvField(to.href), '301'].join(',')).join('\n') + '\n';
+
+const toWordPress = (map: RedirectMap): string => JSON.stringify({
+    groups: [{ id: 1, name: 'Redirections', module_id: 1, enabled: true }],
+    redirects: parsedRules(map).map(({ rule, from, to }, index) => ({
+        id: index + 1,
+        url: pathOf(from),
+        match_url: pathOf(from),
+        match_data: { source: { flag_query: 'exact', flag_case: false, flag_trailing: false, flag_regex: false } },
+        action_code: 301,
+        action_type: 'url',
+        action_data: { url: targetOf(from, to) },
+        match_type: 'url',
+        title: rule.reason,
+        regex: false,
+        group_id: 1,
+        position: index,
+        enabled: true,
+    })),
+}, null, 2) + '\n';
+
+const EXPORTERS: Record<RedirectExportFormat, (map: RedirectMap) => string> = {
+    htaccess: toHtaccess,
+    nginx: toNginx,
+    netlify: toNetlify,
+    vercel: toVercel,
+    cloudflare: toCloudflare,
+    wordpress: toWordPress,
+};
+
+/**
+ * Render the validated redirects as a config file. Only the shippable rules
+ * are exported; loops and redirects to broken targets are left out.
+ */
+export const exportRedirectMap = (map: RedirectMap, format: RedirectExportFormat): string => EXPORTERS[format](map);
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const SESSION_STORAGE_KEY = 'orchestrator-ai-session-id';
+// Must match the header read by the anon RLS policies in the Supabase migrations
+export const SESSION_HEADER = 'x-session-id';
+
+let _sessionId: string | null = null;
+
+const generateSessionId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // Fallback for non-secure contexts where randomUUID is unavailable
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * Returns the stable anonymous identifier for this browser, creating it on first use.
+ * Falls back to an in-memory id when localStorage is unavailable.
+ */
+export const getSessionId = (): string => {
+  if (_sessionId) return _sessionId;
+
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) {
+      _sessionId = stored;
+      return stored;
+    }
+  } catch (e) {
+    console.warn('[SessionIdentity] Failed to read stored session id:', e);
+  }
+
+  _sessionId = generateSessionId();
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, _sessionId);
+  } catch (e) {
+    console.warn('[SessionIdentity] Failed to persist session id:', e);
+  }
+  return _sessionId;
+};
+
+/**
+ * Headers to attach to every Supabase request so anon RLS policies can match rows.
+ */
+export const getSessionHeaders = (): Record<string, string> => ({
+  [SESSION_HEADER]: getSessionId(),
+});
+
+/**
+ * Transfers rows created anonymously in this browser to the signed-in user (auth.uid()).
+ * Requires an authenticated client. Returns the number of claimed rows.
+ */
+export const claimAnonymousRows = async (client: SupabaseClient): Promise<number> => {
+  const { data, error } = await client.rpc('claim_session_rows', { p_session_id: getSessionId() });
+  if (error) {
+    throw new Error(`Failed to claim anonymous data: ${error.message}`);
+  }
+  return typeof data === 'number' ? data : 0;
+};
@@ -0,0 +1,129 @@
+import type { SitemapCandidate, SitemapSource } from '../types';
+import { fetchUrl } from './fetchTransport';
+import { fetchGscSitemaps } from './gscService';
+import { readSitemapBody, detectSitemapFormat } from './sitemapParser';
+
+// Where CMSs and SEO plugins put sitemaps when robots.txt doesn't say
+const COMMON_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml'];
+const DISCOVERY_TIMEOUT_MS = 30000;
+
+export interface SitemapDiscoveryOptions {
+    accessToken?: string | null; // When set, the GSC sitemaps list is queried too
+    gscSiteUrl?: string; // GSC property to query; defaults to the input
+    signal?: AbortSignal;
+}
+
+/**
+ * Turn a bare domain, full URL or GSC property ("sc-domain:example.com")
+ * into the site's origin. Returns null when the input can't be a website.
+ */
+export const normalizeSiteOrigin = (input: string): string | null => {
+    let value = input.trim();
+    if (!value) return null;
+    if (value.startsWith('sc-domain:')) {
+        value = value.slice('sc-domain:'.length);
+    }
+    if (!/^https?:\/\//i.test(value)) {
+        value = `https://${value}`;
+    }
+    try {
+        const url = new URL(value);
+        return url.hostname.includes('.') ? url.origin : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Read the Sitemap: directives from a robots.txt body.
+ */
+export const parseRobotsSitemaps = (robotsTxt: string, origin: string): string[] => {
+    const sitemaps: string[] = [];
+    for (const line of robotsTxt.split(/\r?\n/)) {
+        const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i);
+        if (!match) continue;
+        try {
+            sitemaps.push(new URL(match[1], origin).toString());
+        } catch {
+            // Ignore malformed directives
+        }
+    }
+    return sitemaps;
+};
+
+const fetchText = async (url: string, signal: AbortSignal): Promise<string | null> => {
+    try {
+        const response = await fetchUrl(url, signal);
+        return await readSitemapBody(response);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Find candidate sitemaps for a site from GSC, robots.txt and common locations.
+ * Candidates are ordered by how authoritative their source is: submitted to
+ * GSC first, then declared in robots.txt, then found by probing.
+ */
+export const discoverSitemaps = async (
+    siteInput: string,
+    options: SitemapDiscoveryOptions = {}
+): Promise<SitemapCandidate[]> => {
+    const origin = normalizeSiteOrigin(siteInput);
+    if (!origin) {
+        throw new Error(`"${siteInput}" is not a valid website address.`);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), DISCOVERY_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    const candidates = new Map<string, SitemapCandidate>();
+    const addCandidate = (url: string, source: SitemapSource, details: Partial<SitemapCandidate> = {}) => {
+        const existing = candidates.get(url);
+        if (existing) {
+            if (!existing.sources.includes(source)) existing.sources.push(source);
+            existing.isIndex ??= details.isIndex;
+            existing.lastSubmitted ??= details.lastSubmitted;
+        } else {
+            candidates.set(url, { url, sources: [source], ...details });
+        }
+    };
+
+    const fromGsc = async () => {
+        if (!options.accessToken) return;
+        try {
+            const sitemaps = await fetchGscSitemaps(options.gscSiteUrl || siteInput, options.accessToken);
+            sitemaps.forEach(s => addCandidate(s.path, 'gsc', { isIndex: s.isSitemapsIndex, lastSubmitted: s.lastSubmitted }));
+        } catch (e) {
+            console.warn('[SitemapDiscovery] GSC sitemaps lookup failed:', e);
+        }
+    };
+
+    const fromRobots = async () => {
+        const robotsTxt = await fetchText(`${origin}/robots.txt`, controller.signal);
+        if (robotsTxt) {
+            parseRobotsSitemaps(robotsTxt, origin).forEach(url => addCandidate(url, 'robots'));
+        }
+    };
+
+    const fromProbes = () => Promise.all(COMMON_SITEMAP_PATHS.map(async path => {
+        const url = `${origin}${path}`;
+        const body = await fetchText(url, controller.signal);
+        // Proxies and soft-404s return HTML with a 200, so only accept real sitemaps
+        const format = body ? detectSitemapFormat(body) : null;
+        if (format) addCandidate(url, 'probe', { isIndex: format === 'sitemapindex' });
+    }));
+
+    try {
+        await Promise.all([fromGsc(), fromRobots(), fromProbes()]);
+    } finally {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const rank = (c: SitemapCandidate) => Math.min(...c.sources.map(s => ['gsc', 'robots', 'probe'].indexOf(s)));
+    // Prefer indexes within a source: they cover the whole site
+    return [...candidates.values()].sort((a, b) => rank(a) - rank(b) || Number(!!b.isIndex) - Number(!!a.isIndex));
+};
@@ -0,0 +1,164 @@
+import type { ParsedSitemap, ParsedSitemapUrl, SitemapFormat, SitemapImage, SitemapVideo, SitemapNews, HreflangAlternate } from '../types';
+import { parseXml, type XmlElement } from './xmlParser';
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Read a sitemap response body as text, gunzipping .xml.gz files. Servers that
+ * send gzip as Content-Encoding are already decoded by fetch, so we sniff the
+ * magic bytes rather than trusting the URL or Content-Type.
+ */
+export const readSitemapBody = async (response: Response): Promise<string> => {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+        const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+        return new Response(stream).text();
+    }
+    return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Work out which sitemap format a body is in. Returns null for anything else,
+ * e.g. the HTML error pages that proxies and soft-404s serve with a 200.
+ */
+export const detectSitemapFormat = (body: string): SitemapFormat | null => {
+    const text = body.replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('<')) {
+        // Skip the prolog, comments and doctype to reach the root element
+        const root = text.match(/<(?![?!])([\w.-]+:)?([\w.-]+)/);
+        switch (root?.[2].toLowerCase()) {
+            case 'sitemapindex': return 'sitemapindex';
+            case 'urlset': return 'urlset';
+            case 'rss':
+            case 'rdf': return 'rss';
+            case 'feed': return 'atom';
+            default: return null;
+        }
+    }
+    const firstLine = text.split(/\r?\n/, 1)[0].trim();
+    return /^https?:\/\/\S+$/i.test(firstLine) ? 'text' : null;
+};
+
+const childrenNamed = (parent: XmlElement, localName: string): XmlElement[] =>
+    parent.children.filter(child => child.localName === localName);
+
+const descendantsNamed = (parent: XmlElement, localName: string): XmlElement[] =>
+    parent.children.flatMap(child => [...(child.localName === localName ? [child] : []), ...descendantsNamed(child, localName)]);
+
+const childText = (parent: XmlElement, localName: string): string | undefined =>
+    childrenNamed(parent, localName)[0]?.text.trim() || undefined;
+
+const inNamespace = (el: XmlElement, fragment: string) => el.namespaceURI?.includes(fragment) ?? false;
+
+const parseImages = (url: XmlElement): SitemapImage[] =>
+    childrenNamed(url, 'image')
+        .filter(el => inNamespace(el, 'sitemap-image'))
+        .map(el => ({ loc: childText(el, 'loc') || '', title: childText(el, 'title'), caption: childText(el, 'caption') }))
+        .filter(image => image.loc);
+
+const parseVideos = (url: XmlElement): SitemapVideo[] =>
+    childrenNamed(url, 'video')
+        .filter(el => inNamespace(el, 'sitemap-video'))
+        .map(el => {
+            const duration = Number(childText(el, 'duration'));
+            return {
+                title: childText(el, 'title') || '',
+                description: childText(el, 'description') || '',
+                thumbnailLoc: childText(el, 'thumbnail_loc') || '',
+                contentLoc: childText(el, 'content_loc'),
+                playerLoc: childText(el, 'player_loc'),
+                duration: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+                publicationDate: childText(el, 'publication_date'),
+            };
+        });
+
+const parseNews = (url: XmlElement): SitemapNews | undefined => {
+    const news = childrenNamed(url, 'news').find(el => inNamespace(el, 'sitemap-news'));
+    if (!news) return undefined;
+    const publication = childrenNamed(news, 'publication')[0];
+    return {
+        title: childText(news, 'title') || '',
+        publicationDate: childText(news, 'publication_date') || '',
+        publicationName: publication ? childText(publication, 'name') || '' : '',
+        language: publication ? childText(publication, 'language') || '' : '',
+    };
+};
+
+const parseAlternates = (url: XmlElement): HreflangAlternate[] =>
+    childrenNamed(url, 'link')
+        .filter(el => inNamespace(el, 'xhtml') && el.attributes.rel?.trim().toLowerCase() === 'alternate')
+        .map(el => ({ lang: el.attributes.hreflang?.trim() || '', href: el.attributes.href?.trim() || '' }))
+        .filter(alternate => alternate.lang && alternate.href);
+
+const bareUrl = (loc: string, lastmod?: string): ParsedSitemapUrl => ({ loc, lastmod, images: [], videos: [], alternates: [] });
+
+const parseUrlset = (root: XmlElement): ParsedSitemapUrl[] =>
+    childrenNamed(root, 'url')
+        .map(url => {
+            const priority = childText(url, 'priority');
+            return {
+                loc: childText(url, 'loc') || '',
+                lastmod: childText(url, 'lastmod'),
+                changefreq: childText(url, 'changefreq')?.toLowerCase(),
+                priority: priority && Number.isFinite(Number(priority)) ? Number(priority) : undefined,
+                images: parseImages(url),
+                videos: parseVideos(url),
+                news: parseNews(url),
+                alternates: parseAlternates(url),
+            };
+        })
+        .filter(url => url.loc);
+
+const parseRss = (root: XmlElement): ParsedSitemapUrl[] =>
+    // RSS 2.0 nests items in <channel>; RSS 1.0 (RDF) puts them at the root
+    descendantsNamed(root, 'item')
+        .map(item => bareUrl(childText(item, 'link') || '', childText(item, 'pubDate') || childText(item, 'date')))
+        .filter(url => url.loc);
+
+const parseAtom = (root: XmlElement): ParsedSitemapUrl[] =>
+    childrenNamed(root, 'entry')
+        .map(entry => {
+            const links = childrenNamed(entry, 'link');
+            const link = links.find(l => (l.attributes.rel || 'alternate') === 'alternate') ?? links[0];
+            return bareUrl(link?.attributes.href?.trim() || '', childText(entry, 'updated') || childText(entry, 'published'));
+        })
+        .filter(url => url.loc);
+
+const parseText = (body: string): ParsedSitemapUrl[] =>
+    body.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => /^https?:\/\/\S+$/i.test(line))
+        .map(line => bareUrl(line));
+
+/**
+ * Parse any supported sitemap body: XML sitemap indexes and urlsets (with the
+ * image, video and news extensions and hreflang alternates), RSS 1.0/2.0 and Atom feeds, and plain-text
+ * URL lists. Uses the environment-neutral XML parser, so it works off the main thread and in Node.
+ */
+export const parseSitemap = (body: string): ParsedSitemap => {
+    const format = detectSitemapFormat(body);
+    if (!format) {
+        throw new Error('Unrecognized sitemap format');
+    }
+    if (format === 'text') {
+        return { format, urls: parseText(body) };
+    }
+
+    const root = parseXml(body.replace(/^\uFEFF/, ''));
+
+    switch (format) {
+        case 'sitemapindex':
+            return {
+                format,
+                sitemaps: childrenNamed(root, 'sitemap')
+                    .map(sitemap => childText(sitemap, 'loc'))
+                    .filter(Boolean) as string[],
+            };
+        case 'urlset':
+            return { format, urls: parseUrlset(root) };
+        case 'rss':
+            return { format, urls: parseRss(root) };
+        case 'atom':
+            return { format, urls: parseAtom(root) };
+    }
+};
@@ -0,0 +1,145 @@
+import type { SitemapCrawlResult, SitemapIssue, SitemapIssueType, SitemapValidationReport } from '../types';
+
+// Limits from the sitemaps.org protocol; they apply to both urlsets and indexes
+const MAX_URLS_PER_SITEMAP = 50000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_EXAMPLES = 5;
+
+// W3C Datetime: YYYY, YYYY-MM, YYYY-MM-DD or a full timestamp with a timezone
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+// Allow for timezone skew before calling a lastmod "in the future"
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+const isValidLastmod = (lastmod: string, now: number): boolean => {
+    if (!W3C_DATETIME.test(lastmod)) return false;
+    const time = Date.parse(lastmod);
+    return !isNaN(time) && time <= now + FUTURE_TOLERANCE_MS;
+};
+
+const bareHost = (hostname: string) => hostname.replace(/^www\./, '');
+
+/**
+ * Whether a URL belongs to the property: a domain property ("sc-domain:")
+ * covers every subdomain and protocol, a URL-prefix property only what starts with it.
+ */
+const isInProperty = (url: URL, property: string): boolean => {
+    if (property.startsWith('sc-domain:')) {
+        const domain = property.slice('sc-domain:'.length).toLowerCase();
+        const host = url.hostname.toLowerCase();
+        return host === domain || host.endsWith(`.${domain}`);
+    }
+    try {
+        const prefix = new URL(/^https?:\/\//i.test(property) ? property : `https://${property}`);
+        // Bare domains typed into the wizard are treated like www-agnostic prefixes
+        if (!/^https?:\/\//i.test(property)) {
+            return bareHost(url.hostname) === bareHost(prefix.hostname);
+        }
+        return url.href.startsWith(prefix.href);
+    } catch {
+        return true;
+    }
+};
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Check the crawled sitemaps against the protocol limits and for hygiene
+ * problems that make search engines distrust or skip them.
+ */
+export const validateSitemaps = (
+    rootSitemap: string,
+    property: string,
+    crawl: SitemapCrawlResult
+): SitemapValidationReport => {
+    const now = Date.now();
+    const issues: SitemapIssue[] = [];
+    const addIssue = (type: SitemapIssueType, severity: SitemapIssue['severity'], message: string, examples: string[], count = examples.length, sitemap?: string) => {
+        if (count === 0) return;
+        issues.push({ type, severity, message, sitemap, count, examples: examples.slice(0, MAX_EXAMPLES) });
+    };
+
+    // Per-file checks
+    for (const file of crawl.files) {
+        if (file.error) {
+            addIssue(
+                file.error.kind === 'unreachable' ? 'unreachable' : 'parse_error',
+                'error',
+                file.error.kind === 'unreachable'
+                    ? 'Sitemap could not be fetched. Search engines will skip it.'
+                    : `Sitemap could not be parsed (${file.error.message}).`,
+                [file.url], 1, file.url
+            );
+            continue;
+        }
+
+        const entryCount = file.urls.length + file.childSitemaps.length;
+        if (entryCount > MAX_URLS_PER_SITEMAP) {
+            addIssue('too_many_urls', 'error', `Lists ${entryCount.toLocaleString()} entries; the limit is ${MAX_URLS_PER_SITEMAP.toLocaleString()}. Split it and reference the parts from a sitemap index.`, [file.url], 1, file.url);
+        }
+        if (file.bytes > MAX_SITEMAP_BYTES) {
+            addIssue('too_large', 'error', `Is ${formatBytes(file.bytes)} uncompressed; the limit is ${formatBytes(MAX_SITEMAP_BYTES)}.`, [file.url], 1, file.url);
+        }
+
+        const invalidLastmods = file.urls.filter(u => u.lastmod && !isValidLastmod(u.lastmod, now));
+        addIssue(
+            'invalid_lastmod',
+            'warning',
+            'Has <lastmod> values that are not W3C dates or lie in the future, so search engines may ignore its lastmod data.',
+            invalidLastmods.map(u => `${u.loc} (${u.lastmod})`),
+            invalidLastmods.length,
+            file.url
+        );
+    }
+
+    // Checks across every URL listed
+    const allLocs = crawl.files.flatMap(file => file.urls.map(u => u.loc));
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    const protocols = new Map<string, string[]>();
+    const hostsByDomain = new Map<string, Map<string, string[]>>();
+    const offProperty: string[] = [];
+
+    for (const loc of allLocs) {
+        if (seen.has(loc)) duplicates.add(loc);
+        seen.add(loc);
+
+        let url: URL;
+        try {
+            url = new URL(loc);
+        } catch {
+            offProperty.push(loc);
+            continue;
+        }
+        protocols.set(url.protocol, [...(protocols.get(url.protocol) ?? []), loc].slice(0, MAX_EXAMPLES));
+
+        const hosts = hostsByDomain.get(bareHost(url.hostname)) ?? new Map<string, string[]>();
+        hosts.set(url.hostname, [...(hosts.get(url.hostname) ?? []), loc].slice(0, MAX_EXAMPLES));
+        hostsByDomain.set(bareHost(url.hostname), hosts);
+
+        if (!isInProperty(url, property)) offProperty.push(loc);
+    }
+
+    addIssue('duplicate_loc', 'warning', 'The same URL is listed more than once across your sitemaps.', [...duplicates]);
+
+    if (protocols.size > 1) {
+        const httpCount = allLocs.filter(loc => loc.startsWith('http:')).length;
+        addIssue('mixed_protocol', 'warning', `Mixes http and https URLs (${httpCount.toLocaleString()} http). List only the canonical protocol.`, protocols.get('http:') ?? [], httpCount);
+    }
+
+    for (const [domain, hosts] of hostsByDomain) {
+        if (hosts.size < 2) continue;
+        const examples = [...hosts.values()].map(locs => locs[0]);
+        addIssue('mixed_host', 'warning', `Lists both www and non-www URLs for ${domain}. List only the canonical host.`, examples, examples.length);
+    }
+
+    addIssue('off_property', 'error', `Lists URLs outside ${property}. Search engines ignore URLs a sitemap is not allowed to cover.`, offProperty);
+
+    const severityOrder = { error: 0, warning: 1 };
+    return {
+        rootSitemap,
+        sitemapsChecked: crawl.files.length,
+        sitemapsNotChecked: crawl.unvisitedSitemaps,
+        urlsChecked: allLocs.length,
+        issues: issues.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]),
+    };
+};
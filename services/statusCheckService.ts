@@ -0,0 +1,158 @@
+import type { RedirectHop, TechnicalAudit, UrlStatusResult } from '../types';
+import { getFetchTransport, type TransportResponse } from './fetchTransport';
+import { applyFindings } from '../utils/auditFindings';
+import { pluralize } from '../utils/utility';
+
+const STATUS_CHECK_CONCURRENCY = 8;
+const STATUS_CHECK_TIMEOUT_MS = 15000;
+const MAX_REDIRECT_HOPS = 10;
+const MAX_EVIDENCE = 10;
+
+type ActionItem = TechnicalAudit['actionItems'][number];
+
+const isRedirect = (status: number) => status >= 300 && status < 400;
+
+/**
+ * Request a URL without following redirects, hop by hop, so the whole chain is
+ * recorded. How much of the chain is visible depends on the fetch transport:
+ * browsers hide redirect responses, so direct checks collapse the remaining hops
+ * into one, and plain proxies only report the final response. Resolves with null
+ * when the response is hidden altogether: a direct check of a site that sends no
+ * CORS headers tells nothing about its status.
+ */
+export const checkUrlStatus = async (url: string, signal?: AbortSignal): Promise<UrlStatusResult | null> => {
+    const transport = getFetchTransport();
+    const observedVia: UrlStatusResult['observedVia'] = transport.kind === 'direct' ? 'direct' : 'proxy';
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), STATUS_CHECK_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    const redirectChain: RedirectHop[] = [];
+    const result = (finalUrl: string, status: number, xRobotsTag: string | null, chainObserved: boolean): UrlStatusResult => ({
+        url, finalUrl, status, redirectChain, hops: redirectChain.length, xRobotsTag, observedVia, chainObserved,
+    });
+    const failure = (error: string): UrlStatusResult => ({
+        url, finalUrl: url, status: null, redirectChain, hops: redirectChain.length, xRobotsTag: null, observedVia, chainObserved: false, error,
+    });
+    // Follow the rest of the way in one request when hops can't be observed
+    const followRest = async (from: string): Promise<UrlStatusResult | null> => {
+        let fetched: TransportResponse;
+        try {
+            fetched = await transport.fetch(from, controller.signal);
+        } catch (e) {
+            // Direct checks only get here after the site answered with a redirect, so the
+            // failure is the browser hiding the destination, not the destination being down
+            if (transport.kind === 'direct' && !controller.signal.aborted) return null;
+            throw e;
+        }
+        const { response, finalUrl } = fetched;
+        response.body?.cancel();
+        if (finalUrl !== from) {
+            redirectChain.push({ url: from, status: null, location: finalUrl });
+        }
+        return result(finalUrl, response.status, response.headers.get('x-robots-tag'), false);
+    };
+
+    try {
+        if (!transport.fetchHop) {
+            return await followRest(url);
+        }
+
+        let current = url;
+        for (let hop = 0; hop <= MAX_REDIRECT_HOPS; hop++) {
+            const { status, location, xRobotsTag, blocked } = await transport.fetchHop(current, controller.signal);
+            if (blocked) {
+                return null;
+            }
+            if (status === null) {
+                return await followRest(current);
+            }
+            if (!isRedirect(status) || !location) {
+                return result(current, status, xRobotsTag, true);
+            }
+
+            const next = new URL(location, current).toString();
+            redirectChain.push({ url: current, status, location: next });
+            if (next === url || redirectChain.some(h => h.url === next)) {
+                return failure('Redirect loop');
+            }
+            current = next;
+        }
+        return failure(`More than ${MAX_REDIRECT_HOPS} redirects`);
+    } catch (e) {
+        const message = controller.signal.aborted && !signal?.aborted
+            ? `Timed out after ${STATUS_CHECK_TIMEOUT_MS / 1000}s`
+            : e instanceof Error ? e.message : 'Unknown error';
+        return failure(message);
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Check many URLs with bounded concurrency, preserving input order. URLs whose
+ * response the transport cannot see are left out, as unchecked.
+ */
+export const checkUrlStatuses = async (
+    urls: string[],
+    onProgress: (done: number, total: number) => void = () => {},
+    signal?: AbortSignal
+): Promise<UrlStatusResult[]> => {
+    const results: (UrlStatusResult | null)[] = new Array(urls.length);
+    let nextIndex = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (nextIndex < urls.length && !signal?.aborted) {
+            const index = nextIndex++;
+            results[index] = await checkUrlStatus(urls[index], signal);
+            onProgress(++done, urls.length);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(STATUS_CHECK_CONCURRENCY, urls.length) }, worker));
+    return results.filter((result): result is UrlStatusResult => !!result);
+};
+
+const describeChain = (result: UrlStatusResult): string => {
+    const hops = result.redirectChain.map(hop => `${hop.url} (${hop.status ?? '3xx'})`);
+    return [...hops, `${result.finalUrl} (${result.status ?? 'no response'})`].join(' → ');
+};
+
+/**
+ * Turn status check results into technical action items backed by the observed responses.
+ */
+export const toStatusActionItems = (results: UrlStatusResult[]): ActionItem[] => {
+    const items: ActionItem[] = [];
+    const add = (matches: UrlStatusResult[], item: (count: number) => string, priority: ActionItem['priority'], evidence: (r: UrlStatusResult) => string) => {
+        if (matches.length === 0) return;
+        items.push({ item: item(matches.length), priority, evidence: matches.slice(0, MAX_EVIDENCE).map(evidence) });
+    };
+
+    const notFound = results.filter(r => r.status !== null && r.status >= 400 && r.status < 500);
+    const serverErrors = results.filter(r => r.status !== null && r.status >= 500);
+    const redirected = results.filter(r => r.hops > 0 && r.status !== null && r.status < 400);
+    const noindexed = results.filter(r => r.status !== null && r.status < 300 && /noindex|none/i.test(r.xRobotsTag || ''));
+    const unreachable = results.filter(r => r.status === null);
+
+    add(notFound, n => `Fix or remove ${pluralize(n, 'sitemap URL')} returning 4xx errors`, 'high', describeChain);
+    add(serverErrors, n => `Investigate ${pluralize(n, 'sitemap URL')} returning 5xx server errors`, 'high', describeChain);
+    add(noindexed, n => `Remove ${pluralize(n, 'noindexed URL')} from the sitemap, or lift the noindex if they should rank`, 'high', r => `${r.url} (X-Robots-Tag: ${r.xRobotsTag})`);
+    add(
+        redirected,
+        n => `Replace ${pluralize(n, 'redirecting sitemap URL')} with their final destinations${redirected.some(r => r.hops > 1) ? ' and collapse multi-hop chains' : ''}`,
+        redirected.some(r => r.hops > 1) ? 'high' : 'medium',
+        r => `${describeChain(r)}${r.hops > 1 ? ` [${r.hops} hops]` : ''}`
+    );
+    add(unreachable, n => `Check ${pluralize(n, 'sitemap URL')} that could not be reached`, 'medium', r => `${r.url}: ${r.error}`);
+
+    return items;
+};
+
+// Broken or noindexed sitemap URLs (the high-priority items) rule out a "good" rating
+export const applyStatusFindings = (audit: TechnicalAudit, results: UrlStatusResult[]): TechnicalAudit => {
+    const items = toStatusActionItems(results);
+    return applyFindings(audit, items, items.some(i => i.priority === 'high'));
+};
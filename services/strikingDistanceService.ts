@@ -0,0 +1,167 @@
+import type { GscAnalyticsDataset, StrikingDistanceEntry, StrikingDistanceReport, PageAction, OptimizationTask } from '../types';
+import { fetchPageSnapshot } from './pageFetcherService';
+
+export interface PageHeadings {
+    title: string;
+    h1: string[];
+}
+
+export interface StrikingDistanceOptions {
+    minPosition?: number;
+    maxPosition?: number;
+    minImpressions?: number;
+    maxEntries?: number;
+    maxPagesToFetch?: number; // Each page is fetched once to read its title and H1
+    concurrency?: number;
+    fetchHeadings?: (url: string) => Promise<PageHeadings>;
+}
+
+const DEFAULT_OPTIONS = {
+    minPosition: 8,
+    maxPosition: 20,
+    minImpressions: 50,
+    maxEntries: 50,
+    maxPagesToFetch: 20,
+    concurrency: 4,
+};
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * True when every word of the query appears in the text, in any order.
+ */
+export const containsQuery = (text: string, query: string): boolean => {
+    const words = new Set(tokenize(text));
+    return tokenize(query).every(token => words.has(token));
+};
+
+const fetchHeadingsFromSnapshot = async (url: string): Promise<PageHeadings> => {
+    const snapshot = await fetchPageSnapshot(url);
+    if (snapshot.fetchError) throw new Error(snapshot.fetchError);
+    return { title: snapshot.title, h1: snapshot.headings.h1 };
+};
+
+/**
+ * Lists page/query pairs ranking just off page one, with their title/H1 coverage.
+ */
+export const buildStrikingDistanceReport = async (
+    dataset: GscAnalyticsDataset,
+    options: StrikingDistanceOptions = {}
+): Promise<StrikingDistanceReport> => {
+    if (!dataset.dimensions.includes('page') || !dataset.dimensions.includes('query')) {
+        throw new Error('Striking-distance analysis needs a dataset fetched with both the page and query dimensions.');
+    }
+    const { fetchHeadings = fetchHeadingsFromSnapshot, ...rest } = options;
+    const opts = { ...DEFAULT_OPTIONS, ...rest };
+
+    const candidates = dataset.rows
+        .filter(row => row.page && row.query
+            && row.position >= opts.minPosition
+            && row.position <= opts.maxPosition
+            && row.impressions >= opts.minImpressions)
+        .sort((a, b) => b.impressions - a.impressions)
+        .slice(0, opts.maxEntries);
+
+    // Fetch the pages behind the most valuable entries first
+    const pages = [...new Set(candidates.map(row => row.page!))].slice(0, opts.maxPagesToFetch);
+    const headingsByPage = new Map<string, PageHeadings | null>();
+    let nextIndex = 0;
+    const worker = async () => {
+        while (nextIndex < pages.length) {
+            const page = pages[nextIndex++];
+            try {
+                headingsByPage.set(page, await fetchHeadings(page));
+            } catch (e) {
+                console.warn(`Could not fetch ${page} for striking-distance check:`, e);
+                headingsByPage.set(page, null);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(opts.concurrency, pages.length) }, worker));
+
+    const entries: StrikingDistanceEntry[] = candidates.map(row => {
+        const headings = headingsByPage.get(row.page!);
+        return {
+            page: row.page!,
+            query: row.query!,
+            position: row.position,
+            impressions: row.impressions,
+            clicks: row.clicks,
+            ctr: row.ctr,
+            inTitle: headings ? containsQuery(headings.title, row.query!) : null,
+            inH1: headings ? headings.h1.some(h1 => containsQuery(h1, row.query!)) : null,
+        };
+    });
+
+    return {
+        entries,
+        minPosition: opts.minPosition,
+        maxPosition: opts.maxPosition,
+        pagesChecked: [...headingsByPage.values()].filter(Boolean).length,
+    };
+};
+
+/**
+ * Turns one striking-distance entry into concrete on-page tasks.
+ */
+export const toOptimizationTasks = (entry: StrikingDistanceEntry): OptimizationTask[] => {
+    const impact: OptimizationTask['impact'] = entry.position <= 12 ? 'high' : entry.position <= 15 ? 'medium' : 'low';
+    const context = `ranks ${entry.position.toFixed(1)} with ${entry.impressions} impressions`;
+    const tasks: OptimizationTask[] = [];
+
+    if (entry.inTitle === false) {
+        tasks.push({ task: `Work "${entry.query}" into the title tag (${context})`, impact });
+    }
+    if (entry.inH1 === false) {
+        tasks.push({ task: `Use "${entry.query}" in the H1 (${context})`, impact });
+    }
+    if (tasks.length === 0) {
+        // Already targeted on-page (or unverified): depth and internal links are the remaining levers
+        tasks.push({ task: `Expand the section covering "${entry.query}" and add internal links to this page using it as anchor text (${context})`, impact });
+    }
+    return tasks;
+};
+
+/**
+ * Adds striking-distance tasks to the matching page actions, creating
+ * keyword-sourced actions for pages the analysis did not flag.
+ */
+export const applyStrikingDistanceTasks = (pageActions: PageAction[], report: StrikingDistanceReport): PageAction[] => {
+    const normalize = (url: string) => url.replace(/\/+$/, '');
+    const tasksByPage = new Map<string, { url: string; tasks: OptimizationTask[]; bestPosition: number }>();
+    for (const entry of report.entries) {
+        const key = normalize(entry.page);
+        const current = tasksByPage.get(key) ?? { url: entry.page, tasks: [], bestPosition: Infinity };
+        current.tasks.push(...toOptimizationTasks(entry));
+        current.bestPosition = Math.min(current.bestPosition, entry.position);
+        tasksByPage.set(key, current);
+    }
+
+    const updated = pageActions.map(action => {
+        const key = normalize(action.url);
+        const extra = tasksByPage.get(key);
+        if (!extra || action.source !== 'analysis') return action;
+        tasksByPage.delete(key);
+        return { ...action, optimizationTasks: [...(action.optimizationTasks ?? []), ...extra.tasks] };
+    });
+
+    const created: PageAction[] = [...tasksByPage.values()].map(({ url, tasks, bestPosition }) => ({
+        url,
+        priority: bestPosition <= 12 ? 'high' : 'medium',
+        source: 'keyword',
+        rewriteDetails: {
+            reason: `Ranks just off page one (best position ${bestPosition.toFixed(1)}) for queries it could win with targeted on-page work.`,
+            evidence: report.entries
+                .filter(e => normalize(e.page) === normalize(url))
+                .map(e => `"${e.query}" at position ${e.position.toFixed(1)} (${e.impressions} impressions)`)
+                .join('. '),
+            suggestedHeadline: '',
+            action: 'update',
+            owner: 'content',
+        },
+        optimizationTasks: tasks,
+    }));
+
+    return [...updated, ...created];
+};
@@ -0,0 +1,386 @@
+import type {
+    AnalysisType,
+    PageSnapshot,
+    PageStructuredData,
+    RichResultType,
+    SchemaOpportunity,
+    StructuredDataIssue,
+    StructuredDataItem,
+    StructuredDataReport,
+    TechnicalAudit,
+} from '../types';
+import { applyFindings } from '../utils/auditFindings';
+import { pluralize } from '../utils/utility';
+
+type ActionItem = TechnicalAudit['actionItems'][number];
+
+const MAX_EVIDENCE = 10;
+// A handful of question headings reads as an FAQ section rather than a stray question
+const MIN_FAQ_QUESTIONS = 3;
+
+// --- EXTRACTION ---
+
+// "https://schema.org/Product", "schema:Product" and "Product" all name the same type
+const termName = (term: string): string => term.replace(/^.*[/#:]/, '');
+
+const splitTerms = (value: string | null): string[] => (value || '').split(/\s+/).filter(Boolean).map(termName).filter(Boolean);
+
+const resolveUrl = (value: string, baseUrl: string): string => {
+    try {
+        return new URL(value, baseUrl).toString();
+    } catch {
+        return value;
+    }
+};
+
+const collapse = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+const addProperty = (properties: Record<string, unknown>, name: string, value: unknown) => {
+    const existing = properties[name];
+    if (existing === undefined) properties[name] = value;
+    else properties[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+};
+
+/**
+ * How Microdata and RDFa mark items and properties. Both nest the same way:
+ * an element that starts an item owns every property below it, up to the next item.
+ */
+interface MarkupSyntax {
+    format: 'microdata' | 'rdfa';
+    propertyAttribute: string;
+    itemTypes: (el: Element) => string[] | null; // null when the element does not start an item
+    value: (el: Element, baseUrl: string) => string;
+}
+
+const URL_ATTRIBUTES: Record<string, string> = {
+    a: 'href', area: 'href', link: 'href',
+    audio: 'src', embed: 'src', iframe: 'src', img: 'src', source: 'src', track: 'src', video: 'src',
+    object: 'data',
+};
+
+const microdata: MarkupSyntax = {
+    format: 'microdata',
+    propertyAttribute: 'itemprop',
+    itemTypes: el => el.hasAttribute('itemscope') ? splitTerms(el.getAttribute('itemtype')) : null,
+    value: (el, baseUrl) => {
+        const tag = el.tagName.toLowerCase();
+        if (el.hasAttribute('content')) return collapse(el.getAttribute('content'));
+        if (URL_ATTRIBUTES[tag]) return resolveUrl(el.getAttribute(URL_ATTRIBUTES[tag]) || '', baseUrl);
+        if (tag === 'data' || tag === 'meter') return collapse(el.getAttribute('value'));
+        if (tag === 'time' && el.hasAttribute('datetime')) return collapse(el.getAttribute('datetime'));
+        return collapse(el.textContent);
+    },
+};
+
+const rdfa: MarkupSyntax = {
+    format: 'rdfa',
+    propertyAttribute: 'property',
+    itemTypes: el => el.hasAttribute('typeof') ? splitTerms(el.getAttribute('typeof')) : null,
+    value: (el, baseUrl) => {
+        if (el.hasAttribute('content')) return collapse(el.getAttribute('content'));
+        const resource = el.getAttribute('resource') || el.getAttribute('href') || el.getAttribute('src');
+        if (resource) return resolveUrl(resource, baseUrl);
+        if (el.hasAttribute('datetime')) return collapse(el.getAttribute('datetime'));
+        return collapse(el.textContent);
+    },
+};
+
+const readItem = (scope: Element, syntax: MarkupSyntax, baseUrl: string): Record<string, unknown> => {
+    const properties: Record<string, unknown> = {};
+    const visit = (parent: Element) => {
+        for (const child of Array.from(parent.children)) {
+            const names = splitTerms(child.getAttribute(syntax.propertyAttribute));
+            const types = syntax.itemTypes(child);
+            if (names.length > 0) {
+                const value = types ? { '@type': types.length === 1 ? types[0] : types, ...readItem(child, syntax, baseUrl) } : syntax.value(child, baseUrl);
+                names.forEach(name => addProperty(properties, name, value));
+            }
+            // A nested item keeps its own properties, whether or not it is a property of this one
+            if (!types) visit(child);
+        }
+    };
+    visit(scope);
+    return properties;
+};
+
+// Top-level items only: items that are a property of another are read as part of it
+const readMarkupItems = (doc: Document, syntax: MarkupSyntax, baseUrl: string): StructuredDataItem[] => {
+    const selector = syntax.format === 'microdata' ? '[itemscope]' : '[typeof]';
+    return Array.from(doc.querySelectorAll(selector))
+        .filter(el => !el.hasAttribute(syntax.propertyAttribute) || !el.parentElement?.closest(selector))
+        .map(el => ({ format: syntax.format, types: syntax.itemTypes(el) || [], properties: readItem(el, syntax, baseUrl) }));
+};
+
+const jsonLdTypes = (node: Record<string, unknown>): string[] => {
+    const type = node['@type'];
+    return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string').map(termName);
+};
+
+// Arrays and @graph containers hold several top-level items
+const flattenJsonLd = (node: unknown): Record<string, unknown>[] => {
+    if (Array.isArray(node)) return node.flatMap(flattenJsonLd);
+    if (!node || typeof node !== 'object') return [];
+    const record = node as Record<string, unknown>;
+    const graph = record['@graph'] ? flattenJsonLd(record['@graph']) : [];
+    return record['@type'] ? [record, ...graph] : graph;
+};
+
+/**
+ * Read every JSON-LD block, Microdata item and RDFa resource on the page.
+ * Call before scripts are stripped from the document.
+ */
+export const extractStructuredData = (doc: Document, baseUrl: string): { items: StructuredDataItem[]; jsonLdErrors: string[] } => {
+    const items: StructuredDataItem[] = [];
+    const jsonLdErrors: string[] = [];
+    doc.querySelectorAll('script[type="application/ld+json" i]').forEach((script, index) => {
+        try {
+            flattenJsonLd(JSON.parse(script.textContent || ''))
+                .forEach(node => items.push({ format: 'json-ld', types: jsonLdTypes(node), properties: node }));
+        } catch (e) {
+            jsonLdErrors.push(`JSON-LD block ${index + 1} is not valid JSON: ${e instanceof Error ? e.message : 'parse error'}`);
+        }
+    });
+    items.push(...readMarkupItems(doc, microdata, baseUrl), ...readMarkupItems(doc, rdfa, baseUrl));
+    return { items, jsonLdErrors };
+};
+
+// --- VALIDATION ---
+
+/**
+ * Property requirements for one kind of item. Paths are dotted ("offers.price");
+ * "a|b" is satisfied by either. `each` applies rules to every nested item under a property.
+ */
+interface PropertyRules {
+    required?: string[];
+    recommended?: string[];
+    each?: Record<string, PropertyRules>;
+}
+
+// From Google Search Central's structured data documentation
+const RICH_RESULT_RULES: Record<RichResultType, PropertyRules> = {
+    FAQPage: {
+        required: ['mainEntity'],
+        each: { mainEntity: { required: ['name', 'acceptedAnswer'], each: { acceptedAnswer: { required: ['text'] } } } },
+    },
+    HowTo: {
+        required: ['name', 'step'],
+        recommended: ['image', 'totalTime', 'supply', 'tool', 'estimatedCost'],
+        each: { step: { required: ['text|itemListElement'] } },
+    },
+    Product: {
+        required: ['name', 'offers|review|aggregateRating'],
+        recommended: ['image', 'description', 'brand', 'sku|gtin|gtin8|gtin12|gtin13|gtin14|mpn'],
+        each: {
+            offers: { required: ['price|lowPrice|priceSpecification.price', 'priceCurrency|priceSpecification.priceCurrency'], recommended: ['availability'] },
+            aggregateRating: { required: ['ratingValue', 'ratingCount|reviewCount'] },
+            review: { required: ['author', 'reviewRating'] },
+        },
+    },
+    Article: {
+        recommended: ['headline', 'image', 'datePublished', 'dateModified', 'author'],
+        each: { author: { recommended: ['name'] } },
+    },
+    BreadcrumbList: {
+        required: ['itemListElement'],
+        each: { itemListElement: { required: ['position', 'name|item.name'], recommended: ['item'] } },
+    },
+    LocalBusiness: {
+        required: ['name', 'address'],
+        recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification|openingHours', 'priceRange'],
+        each: { address: { recommended: ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry'] } },
+    },
+    Organization: {
+        recommended: ['name', 'url', 'logo', 'sameAs'],
+    },
+};
+
+// Common schema.org subtypes that Google treats like their parent type
+const TYPE_ALIASES: Record<string, RichResultType> = {
+    NewsArticle: 'Article', BlogPosting: 'Article', TechArticle: 'Article', Report: 'Article',
+    Restaurant: 'LocalBusiness', Store: 'LocalBusiness', FoodEstablishment: 'LocalBusiness', ProfessionalService: 'LocalBusiness',
+    MedicalBusiness: 'LocalBusiness', Dentist: 'LocalBusiness', LegalService: 'LocalBusiness', Attorney: 'LocalBusiness',
+    RealEstateAgent: 'LocalBusiness', AutomotiveBusiness: 'LocalBusiness', HomeAndConstructionBusiness: 'LocalBusiness',
+    HealthAndBeautyBusiness: 'LocalBusiness', LodgingBusiness: 'LocalBusiness', Hotel: 'LocalBusiness', FinancialService: 'LocalBusiness',
+    Plumber: 'LocalBusiness', Electrician: 'LocalBusiness', HVACBusiness: 'LocalBusiness',
+    Corporation: 'Organization', OnlineStore: 'Organization', NGO: 'Organization', EducationalOrganization: 'Organization',
+};
+
+const richResultType = (types: string[]): RichResultType | null => {
+    for (const type of types) {
+        if (type in RICH_RESULT_RULES) return type as RichResultType;
+        if (TYPE_ALIASES[type]) return TYPE_ALIASES[type];
+    }
+    return null;
+};
+
+const isPresent = (value: unknown): boolean =>
+    value !== undefined && value !== null && (typeof value !== 'string' || value.trim() !== '') && (!Array.isArray(value) || value.some(isPresent));
+
+const valuesAt = (node: unknown, path: string[]): unknown[] => {
+    if (Array.isArray(node)) return node.flatMap(n => valuesAt(n, path));
+    if (path.length === 0) return isPresent(node) ? [node] : [];
+    if (!node || typeof node !== 'object') return [];
+    return valuesAt((node as Record<string, unknown>)[path[0]], path.slice(1));
+};
+
+const hasProperty = (node: Record<string, unknown>, alternatives: string): boolean =>
+    alternatives.split('|').some(path => valuesAt(node, path.split('.')).length > 0);
+
+const describeAlternatives = (alternatives: string) => alternatives.split('|').map(p => `"${p}"`).join(' or ');
+
+const checkRules = (node: Record<string, unknown>, rules: PropertyRules, where: string, report: (severity: StructuredDataIssue['severity'], message: string) => void) => {
+    rules.required?.forEach(path => {
+        if (!hasProperty(node, path)) report('error', `${where} is missing required ${describeAlternatives(path)}`);
+    });
+    rules.recommended?.forEach(path => {
+        if (!hasProperty(node, path)) report('warning', `${where} is missing recommended ${describeAlternatives(path)}`);
+    });
+    Object.entries(rules.each ?? {}).forEach(([property, nested]) => {
+        const children = valuesAt(node, [property]);
+        children.forEach((child, index) => {
+            // Plain text values (an author's name, a URL) have no properties to check
+            if (!child || typeof child !== 'object') return;
+            const label = children.length > 1 ? `${where} → ${property} #${index + 1}` : `${where} → ${property}`;
+            checkRules(child as Record<string, unknown>, nested, label, report);
+        });
+    });
+};
+
+const validateItem = (item: StructuredDataItem): StructuredDataIssue[] => {
+    const richResult = richResultType(item.types);
+    if (!richResult) return [];
+    const issues: StructuredDataIssue[] = [];
+    const where = `${item.types.join('/')} (${item.format})`;
+    checkRules(item.properties, RICH_RESULT_RULES[richResult], where, (severity, message) => issues.push({ severity, richResult, message }));
+    if (richResult === 'BreadcrumbList' && valuesAt(item.properties, ['itemListElement']).length === 1) {
+        issues.push({ severity: 'warning', richResult, message: `${where} has a single item; breadcrumbs need at least two` });
+    }
+    return issues;
+};
+
+// --- OPPORTUNITIES ---
+
+const pathSegments = (url: string): string[] => {
+    try {
+        return new URL(url).pathname.split('/').filter(Boolean).map(s => s.toLowerCase());
+    } catch {
+        return [];
+    }
+};
+
+const ARTICLE_SECTIONS = /^(blog|news|articles?|posts?|insights|guides?|stories|magazine)$/;
+const PRODUCT_SECTIONS = /^(products?|shop|store|items?|p)$/;
+
+/**
+ * Markup a page is likely missing, judged from its URL and headings. HowTo is
+ * validated but never suggested: Google no longer shows HowTo rich results.
+ */
+const findOpportunities = (
+    page: PageSnapshot,
+    present: Set<RichResultType>,
+    siteHasOrganization: boolean,
+    analysisType: AnalysisType
+): SchemaOpportunity[] => {
+    const segments = pathSegments(page.url);
+    const opportunities: SchemaOpportunity[] = [];
+    const suggest = (type: RichResultType, reason: string) => {
+        if (!present.has(type)) opportunities.push({ type, reason });
+    };
+
+    if (segments.length === 0 && !siteHasOrganization) {
+        if (analysisType === 'local') suggest('LocalBusiness', 'Homepage of a local business without LocalBusiness markup for name, address, phone and hours');
+        else suggest('Organization', 'No crawled page declares the Organization behind the site (logo, social profiles)');
+    }
+    if (segments.length >= 2) {
+        suggest('BreadcrumbList', `Page sits ${segments.length} levels deep without breadcrumb markup`);
+        if (ARTICLE_SECTIONS.test(segments[0])) suggest('Article', `Page in the /${segments[0]}/ section without Article markup (headline, dates, author)`);
+        if (PRODUCT_SECTIONS.test(segments[0])) suggest('Product', `Page in the /${segments[0]}/ section without Product markup (price, availability, reviews)`);
+    }
+    const questions = [...page.headings.h2, ...page.headings.h3].filter(h => h.trim().endsWith('?'));
+    if (questions.length >= MIN_FAQ_QUESTIONS) {
+        suggest('FAQPage', `${questions.length} question headings (e.g. "${questions[0]}") without FAQPage markup; FAQ rich results are limited to authoritative government and health sites`);
+    }
+    return opportunities;
+};
+
+/**
+ * Validate every crawled page's structured data against Google's rich-result
+ * requirements, and suggest markup that pages of their kind usually carry.
+ */
+export const validateStructuredData = (pages: PageSnapshot[], analysisType: AnalysisType): StructuredDataReport => {
+    const fetched = pages.filter(page => page.status !== null && page.status < 400);
+    const siteHasOrganization = fetched.some(page => page.structuredData.some(item => {
+        const type = richResultType(item.types);
+        return type === 'Organization' || type === 'LocalBusiness';
+    }));
+
+    const typeCounts: Record<string, number> = {};
+    const results: PageStructuredData[] = fetched.map(page => {
+        const present = new Set<RichResultType>();
+        page.structuredData.forEach(item => {
+            const type = richResultType(item.types);
+            if (type) present.add(type);
+        });
+        new Set(page.structuredData.flatMap(item => item.types)).forEach(type => { typeCounts[type] = (typeCounts[type] ?? 0) + 1; });
+
+        return {
+            url: page.url,
+            found: page.structuredData.flatMap(item => item.types.map(type => ({ type, format: item.format }))),
+            issues: [
+                ...page.jsonLdErrors.map(message => ({ severity: 'error' as const, richResult: null, message })),
+                ...page.structuredData.flatMap(validateItem),
+            ],
+            opportunities: findOpportunities(page, present, siteHasOrganization, analysisType),
+        };
+    });
+
+    return {
+        pagesChecked: fetched.length,
+        pagesWithMarkup: fetched.filter(page => page.structuredData.length > 0).length,
+        typeCounts,
+        pages: results.filter(r => r.found.length > 0 || r.issues.length > 0 || r.opportunities.length > 0),
+    };
+};
+
+/**
+ * Turn the structured data report into technical action items: broken markup
+ * first, then missing markup grouped by type, then recommended properties.
+ */
+export const toStructuredDataActionItems = (report: StructuredDataReport): ActionItem[] => {
+    const items: ActionItem[] = [];
+    const issueEvidence = (severity: StructuredDataIssue['severity']) =>
+        report.pages.flatMap(page => page.issues.filter(i => i.severity === severity).map(i => `${page.url}: ${i.message}`));
+
+    const errorPages = report.pages.filter(page => page.issues.some(i => i.severity === 'error'));
+    if (errorPages.length > 0) {
+        items.push({
+            item: `Fix structured data errors on ${pluralize(errorPages.length, 'page')}; they make the markup ineligible for rich results`,
+            priority: 'high',
+            evidence: issueEvidence('error').slice(0, MAX_EVIDENCE),
+        });
+    }
+
+    const byType = new Map<RichResultType, PageStructuredData[]>();
+    report.pages.forEach(page => page.opportunities.forEach(o => byType.set(o.type, [...(byType.get(o.type) ?? []), page])));
+    for (const [type, pages] of byType) {
+        items.push({
+            item: `Add ${type} markup to ${pluralize(pages.length, 'page')}`,
+            priority: type === 'Product' || type === 'LocalBusiness' ? 'high' : type === 'FAQPage' ? 'low' : 'medium',
+            evidence: pages.slice(0, MAX_EVIDENCE).map(page => `${page.url}: ${page.opportunities.find(o => o.type === type)!.reason}`),
+        });
+    }
+
+    const warningPages = report.pages.filter(page => page.issues.some(i => i.severity === 'warning'));
+    if (warningPages.length > 0) {
+        items.push({
+            item: `Complete recommended structured data properties on ${pluralize(warningPages.length, 'page')} for richer search results`,
+            priority: 'low',
+            evidence: issueEvidence('warning').slice(0, MAX_EVIDENCE),
+        });
+    }
+    return items;
+};
+
+// Markup with errors is not eligible for rich results, so the audit can't stay "good"
+export const applyStructuredDataFindings = (audit: TechnicalAudit, report: StructuredDataReport): TechnicalAudit =>
+    applyFindings(audit, toStructuredDataActionItems(report), report.pages.some(page => page.issues.some(i => i.severity === 'error')));
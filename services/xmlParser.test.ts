@@ -0,0 +1,144 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { runCrawl } from './crawlEngine';
+import type { FetchTransport } from './fetchTransport';
+import { parseXml } from './xmlParser';
+
+const SITEMAP_NS = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const IMAGE_NS = 'http://www.google.com/schemas/sitemap-image/1.1';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+describe('parseXml', () => {
+    it('resolves namespaced image: and xhtml: elements', () => {
+        const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="${SITEMAP_NS}" xmlns:image="${IMAGE_NS}" xmlns:xhtml="${XHTML_NS}">
+  <url>
+    <loc>https://example.com/</loc>
+    <image:image><image:loc>https://example.com/hero.jpg</image:loc></image:image>
+    <xhtml:link rel="alternate" hreflang="de" href="https://example.com/de/"/>
+  </url>
+</urlset>`);
+
+        expect(root).toMatchObject({ name: 'urlset', localName: 'urlset', namespaceURI: SITEMAP_NS });
+        const [url] = root.children;
+        expect(url.children.map(c => [c.name, c.namespaceURI])).toEqual([
+            ['loc', SITEMAP_NS],
+            ['image:image', IMAGE_NS],
+            ['xhtml:link', XHTML_NS],
+        ]);
+        expect(url.children[1].children[0]).toMatchObject({ localName: 'loc', namespaceURI: IMAGE_NS, text: 'https://example.com/hero.jpg' });
+        expect(url.children[2]).toMatchObject({
+            localName: 'link',
+            attributes: { rel: 'alternate', hreflang: 'de', href: 'https://example.com/de/' },
+            children: [],
+        });
+    });
+
+    it('scopes namespace declarations to the element that makes them', () => {
+        const root = parseXml('<a xmlns="urn:a"><b xmlns="urn:b"><c/></b><d/></a>');
+        expect(root.children[0].children[0].namespaceURI).toBe('urn:b');
+        expect(root.children[1].namespaceURI).toBe('urn:a');
+    });
+
+    it('keeps CDATA verbatim and decodes entities in text and attributes', () => {
+        const root = parseXml(`<feed>
+  <title><![CDATA[Fish & Chips <b>today</b>]]></title>
+  <loc>https://example.com/?a=1&amp;b=2&#38;c=&#x33;</loc>
+  <link href="https://example.com/?q=&quot;x&quot;&apos;"/>
+</feed>`);
+
+        const [title, loc, link] = root.children;
+        expect(title.text).toBe('Fish & Chips <b>today</b>');
+        expect(loc.text).toBe('https://example.com/?a=1&b=2&c=3');
+        expect(link.attributes.href).toBe(`https://example.com/?q="x"'`);
+    });
+
+    it('skips the prolog, comments and a DOCTYPE with an internal subset', () => {
+        const root = parseXml(`<?xml version="1.0"?>
+<!-- generated -->
+<!DOCTYPE urlset [
+  <!ENTITY site "https://example.com">
+]>
+<urlset><url><loc>&site;/</loc></url></urlset>`);
+
+        expect(root.name).toBe('urlset');
+        // Entities declared in the DTD are not expanded
+        expect(root.children[0].children[0].text).toBe('&site;/');
+    });
+
+    it('throws on mismatched, unclosed and stray tags', () => {
+        expect(() => parseXml('<urlset><url></urlset>')).toThrow('XML Parse Error: expected </url> but found </urlset> (line 1)');
+        expect(() => parseXml('<urlset>\n<url>\n<loc>x</loc>')).toThrow('XML Parse Error: unclosed <url> (line 3)');
+        expect(() => parseXml('<urlset></urlset></url>')).toThrow('unexpected </url>');
+        expect(() => parseXml('<a/><b/>')).toThrow('more than one root element');
+        expect(() => parseXml('<image:image/>')).toThrow('undeclared namespace prefix "image"');
+        expect(() => parseXml('<a><!-- never closed </a>')).toThrow('unterminated comment');
+        expect(() => parseXml('')).toThrow('no root element');
+    });
+});
+
+describe('runCrawl in Node', () => {
+    const stubTransport = (bodies: Record<string, string | Uint8Array>): FetchTransport & { requested: string[] } => {
+        const requested: string[] = [];
+        return {
+            kind: 'direct',
+            requested,
+            async fetch(url) {
+                requested.push(url);
+                const body = bodies[url];
+                return { response: new Response(body ?? 'Not found', { status: body === undefined ? 404 : 200 }), finalUrl: url };
+            },
+        };
+    };
+
+    it('crawls a sitemap index with a gzipped child through a stub transport, without DOMParser', async () => {
+        expect(typeof DOMParser).toBe('undefined');
+
+        const transport = stubTransport({
+            'https://example.com/sitemap.xml': `<?xml version="1.0"?>
+<sitemapindex xmlns="${SITEMAP_NS}">
+  <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+</sitemapindex>`,
+            'https://example.com/sitemap-pages.xml': `<urlset xmlns="${SITEMAP_NS}" xmlns:image="${IMAGE_NS}" xmlns:xhtml="${XHTML_NS}">
+  <url>
+    <loc>https://example.com/</loc>
+    <lastmod>2026-09-01</lastmod>
+    <image:image><image:loc>https://example.com/hero.jpg</image:loc></image:image>
+    <xhtml:link rel="alternate" hreflang="de" href="https://example.com/de/"/>
+  </url>
+  <url><loc>https://example.com/pricing</loc></url>
+</urlset>`,
+            'https://example.com/sitemap-posts.xml.gz': gzipSync(`<urlset xmlns="${SITEMAP_NS}">
+  <url><loc>https://example.com/blog/launch</loc></url>
+</urlset>`),
+        });
+
+        const { crawl, rankedSample } = await runCrawl('https://example.com/sitemap.xml', { transport });
+
+        expect([...transport.requested].sort()).toEqual([
+            'https://example.com/sitemap-pages.xml',
+            'https://example.com/sitemap-posts.xml.gz',
+            'https://example.com/sitemap.xml',
+        ]);
+        expect(crawl.files.map(f => [f.url, f.format, f.error])).toEqual(expect.arrayContaining([
+            ['https://example.com/sitemap.xml', 'sitemapindex', undefined],
+            ['https://example.com/sitemap-pages.xml', 'urlset', undefined],
+            ['https://example.com/sitemap-posts.xml.gz', 'urlset', undefined],
+        ]));
+        expect(crawl.unvisitedSitemaps).toBe(0);
+
+        const homepage = crawl.entries.find(e => e.url === 'https://example.com/');
+        expect(homepage).toMatchObject({
+            lastmod: '2026-09-01',
+            source: 'https://example.com/sitemap-pages.xml',
+            images: [{ loc: 'https://example.com/hero.jpg' }],
+            alternates: [{ lang: 'de', href: 'https://example.com/de/' }],
+        });
+        expect(rankedSample.map(e => e.url).sort()).toEqual([
+            'https://example.com/',
+            'https://example.com/blog/launch',
+            'https://example.com/pricing',
+        ]);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * A small, dependency-free XML parser for sitemaps and feeds. Unlike DOMParser
+ * it runs anywhere: the main thread, web workers and Node. It builds a plain
+ * element tree with namespaces resolved, and is strict about structure
+ * (unclosed or mismatched tags throw) but ignores DTDs.
+ */
+
+export interface XmlElement {
+    name: string; // Qualified name as written, e.g. "image:loc"
+    localName: string;
+    namespaceURI: string | null;
+    attributes: Record<string, string>; // Keyed by qualified name
+    children: XmlElement[];
+    text: string; // Character data directly inside the element (CDATA included), entities decoded
+}
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+const PREDEFINED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const START_TAG = /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const decodeEntities = (text: string): string => {
+    if (!text.includes('&')) return text;
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[\w.-]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        // Entities declared in a DTD are left as written
+        return PREDEFINED_ENTITIES[entity] ?? match;
+    });
+};
+
+const splitName = (name: string): [prefix: string, localName: string] => {
+    const colon = name.indexOf(':');
+    return colon === -1 ? ['', name] : [name.slice(0, colon), name.slice(colon + 1)];
+};
+
+const lineAt = (xml: string, index: number) => xml.slice(0, index).split('\n').length;
+
+interface Frame {
+    element: XmlElement;
+    namespaces: Record<string, string>;
+}
+
+/**
+ * Parse an XML document and return its root element.
+ * Throws "XML Parse Error: ..." for malformed documents.
+ */
+export const parseXml = (xml: string): XmlElement => {
+    const fail = (message: string, index: number): never => {
+        throw new Error(`XML Parse Error: ${message} (line ${lineAt(xml, index)})`);
+    };
+    const skipPast = (terminator: string, from: number, what: string) => {
+        const end = xml.indexOf(terminator, from);
+        if (end === -1) fail(`unterminated ${what}`, from);
+        return end + terminator.length;
+    };
+
+    const stack: Frame[] = [];
+    let root: XmlElement | null = null;
+    let index = 0;
+
+    while (index < xml.length) {
+        const lt = xml.indexOf('<', index);
+        const textEnd = lt === -1 ? xml.length : lt;
+        if (textEnd > index) {
+            const text = xml.slice(index, textEnd);
+            // Whitespace between elements is formatting, not content
+            if (/\S/.test(text)) {
+                if (stack.length === 0) fail('text outside the root element', index);
+                stack[stack.length - 1].element.text += decodeEntities(text);
+            }
+        }
+        if (lt === -1) break;
+
+        if (xml.startsWith('<!--', lt)) {
+            index = skipPast('-->', lt + 4, 'comment');
+        } else if (xml.startsWith('<![CDATA[', lt)) {
+            const end = skipPast(']]>', lt + 9, 'CDATA section');
+            if (stack.length === 0) fail('CDATA outside the root element', lt);
+            stack[stack.length - 1].element.text += xml.slice(lt + 9, end - 3);
+            index = end;
+        } else if (xml.startsWith('<?', lt)) {
+            index = skipPast('?>', lt + 2, 'processing instruction');
+        } else if (xml.startsWith('<!', lt)) {
+            // DOCTYPE, possibly with an internal subset in brackets
+            const bracket = xml.indexOf('[', lt);
+            const close = xml.indexOf('>', lt);
+            index = bracket !== -1 && bracket < close
+                ? skipPast('>', skipPast(']', bracket, 'DOCTYPE'), 'DOCTYPE')
+                : skipPast('>', lt, 'DOCTYPE');
+        } else if (xml.startsWith('</', lt)) {
+            const end = skipPast('>', lt, 'end tag');
+            const name = xml.slice(lt + 2, end - 1).trim();
+            const frame = stack.pop();
+            if (!frame) fail(`unexpected </${name}>`, lt);
+            if (frame!.element.name !== name) fail(`expected </${frame!.element.name}> but found </${name}>`, lt);
+            index = end;
+        } else {
+            START_TAG.lastIndex = lt;
+            const match = START_TAG.exec(xml);
+            if (!match) fail('malformed start tag', lt);
+            const [tag, name, rawAttributes, selfClosing] = match!;
+            if (stack.length === 0 && root) fail('more than one root element', lt);
+
+            const parentNamespaces = stack.length > 0 ? stack[stack.length - 1].namespaces : { xml: XML_NAMESPACE };
+            let namespaces = parentNamespaces;
+            const attributes: Record<string, string> = {};
+            for (const [, attrName, doubleQuoted, singleQuoted] of rawAttributes.matchAll(ATTRIBUTE)) {
+                const value = decodeEntities(doubleQuoted ?? singleQuoted);
+                attributes[attrName] = value;
+                if (attrName === 'xmlns' || attrName.startsWith('xmlns:')) {
+                    if (namespaces === parentNamespaces) namespaces = { ...parentNamespaces };
+                    namespaces[attrName === 'xmlns' ? '' : attrName.slice(6)] = value;
+                }
+            }
+
+            const [prefix, localName] = splitName(name);
+            const element: XmlElement = {
+                name,
+                localName,
+                namespaceURI: namespaces[prefix] || null,
+                attributes,
+                children: [],
+                text: '',
+            };
+            if (prefix && !namespaces[prefix]) fail(`undeclared namespace prefix "${prefix}"`, lt);
+
+            if (stack.length > 0) stack[stack.length - 1].element.children.push(element);
+            else root = element;
+            if (!selfClosing) stack.push({ element, namespaces });
+            index = lt + tag.length;
+        }
+    }
+
+    if (stack.length > 0) fail(`unclosed <${stack[stack.length - 1].element.name}>`, xml.length);
+    if (!root) fail('no root element', 0);
+    return root!;
+};
@@ -0,0 +1,51 @@
+/*
+  # Allow signed-in users to claim anonymous session rows
+
+  1. New Functions
+    - `claim_session_rows(p_session_id text)`
+      - Assigns rows written anonymously under `p_session_id` to `auth.uid()`
+      - Clears `session_id` on claimed rows so they are no longer readable anonymously
+      - Returns the number of claimed `analysis_history` and `ai_configurations` rows
+
+  2. Security
+    - SECURITY DEFINER, because the existing RLS policies only let authenticated
+      users update rows they already own
+    - Only rows without an owner are claimed, and only for an authenticated caller
+    - Execution is revoked from `anon`
+*/
+
+CREATE OR REPLACE FUNCTION claim_session_rows(p_session_id text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed_history integer;
+  claimed_configs integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'claim_session_rows requires an authenticated user';
+  END IF;
+
+  IF p_session_id IS NULL OR p_session_id = '' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE analysis_history
+    SET user_id = auth.uid(), session_id = NULL
+    WHERE session_id = p_session_id AND user_id IS NULL;
+  GET DIAGNOSTICS claimed_history = ROW_COUNT;
+
+  UPDATE ai_configurations
+    SET user_id = auth.uid(), session_id = NULL, updated_at = now()
+    WHERE session_id = p_session_id AND user_id IS NULL;
+  GET DIAGNOSTICS claimed_configs = ROW_COUNT;
+
+  RETURN claimed_history + claimed_configs;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_session_rows(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_session_rows(text) FROM anon;
+GRANT EXECUTE ON FUNCTION claim_session_rows(text) TO authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Let anonymous sessions update and delete their own history
+
+  1. Security
+    - `analysis_history`: UPDATE and DELETE policies for `anon`, keyed on the
+      `x-session-id` request header like the existing anonymous SELECT policy
+    - Only unclaimed rows (no `user_id`) match, and an update cannot move a row
+      to another session or assign it an owner
+*/
+
+CREATE POLICY "Anon users can update by session_id"
+  ON analysis_history
+  FOR UPDATE
+  TO anon
+  USING (user_id IS NULL AND session_id IS NOT NULL AND session_id = current_setting('request.headers', true)::json->>'x-session-id')
+  WITH CHECK (user_id IS NULL AND session_id IS NOT NULL AND session_id = current_setting('request.headers', true)::json->>'x-session-id');
+
+CREATE POLICY "Anon users can delete by session_id"
+  ON analysis_history
+  FOR DELETE
+  TO anon
+  USING (user_id IS NULL AND session_id IS NOT NULL AND session_id = current_setting('request.headers', true)::json->>'x-session-id');
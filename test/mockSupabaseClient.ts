@@ -0,0 +1,271 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSessionHeaders } from '../services/sessionIdentity';
+
+/**
+ * In-memory stand-in for the Supabase project: the subset of the query builder,
+ * auth and RPC API the services use, with the row-level security policies of
+ * supabase/migrations applied, so tests see what a real anon or signed-in
+ * client would see.
+ */
+
+type Row = Record<string, unknown>;
+type Operation = 'select' | 'insert' | 'update' | 'delete';
+
+export interface MockUser {
+    id: string;
+    email?: string;
+}
+
+interface QueryResult {
+    data: unknown;
+    error: { message: string } | null;
+    count?: number | null;
+}
+
+// Operations the anon role has policies for, per table (authenticated users always get their own rows)
+const ANON_POLICIES: Record<string, Operation[]> = {
+    analysis_history: ['select', 'insert', 'update', 'delete'],
+    ai_configurations: [],
+};
+
+export interface MockDatabase {
+    tables: Record<string, Row[]>;
+    anonPolicies: Record<string, Operation[]>;
+}
+
+export const createMockDatabase = (anonPolicies: Record<string, Operation[]> = ANON_POLICIES): MockDatabase => ({
+    tables: { analysis_history: [], ai_configurations: [] },
+    anonPolicies: structuredClone(anonPolicies),
+});
+
+let clock = Date.parse('2026-01-01T00:00:00Z');
+// Strictly increasing timestamps, so "newest first" is deterministic
+const nextTimestamp = () => new Date(clock += 1000).toISOString();
+
+class MockQuery implements PromiseLike<QueryResult> {
+    private operation: Operation = 'select';
+    private columns = '*';
+    private values: Row | Row[] = [];
+    private filters: ((row: Row) => boolean)[] = [];
+    private ordering: { column: string; ascending: boolean } | null = null;
+    private window: { from: number; to: number } | null = null;
+    private returning = false;
+    private expect: 'single' | 'maybeSingle' | null = null;
+    private counting = false;
+
+    constructor(
+        private readonly db: MockDatabase,
+        private readonly table: string,
+        private readonly sessionId: string | undefined,
+        private readonly user: () => MockUser | null
+    ) {}
+
+    select(columns = '*') {
+        if (this.operation === 'select') this.columns = columns;
+        else this.returning = true;
+        return this;
+    }
+
+    insert(values: Row | Row[]) {
+        this.operation = 'insert';
+        this.values = values;
+        return this;
+    }
+
+    update(values: Row, options?: { count?: 'exact' }) {
+        this.operation = 'update';
+        this.values = values;
+        this.counting = options?.count === 'exact';
+        return this;
+    }
+
+    delete(options?: { count?: 'exact' }) {
+        this.operation = 'delete';
+        this.counting = options?.count === 'exact';
+        return this;
+    }
+
+    eq(column: string, value: unknown) {
+        this.filters.push(row => row[column] === value);
+        return this;
+    }
+
+    not(column: string, operator: 'is', value: null) {
+        this.filters.push(row => row[column] !== value);
+        return this;
+    }
+
+    order(column: string, options: { ascending?: boolean } = {}) {
+        this.ordering = { column, ascending: options.ascending ?? true };
+        return this;
+    }
+
+    range(from: number, to: number) {
+        this.window = { from, to };
+        return this;
+    }
+
+    limit(count: number) {
+        this.window = { from: 0, to: count - 1 };
+        return this;
+    }
+
+    single() {
+        this.expect = 'single';
+        return this;
+    }
+
+    maybeSingle() {
+        this.expect = 'maybeSingle';
+        return this;
+    }
+
+    then<T1 = QueryResult, T2 = never>(
+        onFulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+        onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+    ): PromiseLike<T1 | T2> {
+        return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+    }
+
+    // Mirrors the USING / WITH CHECK clauses of the migrations
+    private allowed(row: Row, operation: Operation): boolean {
+        const user = this.user();
+        if (user) return row.user_id === user.id;
+        if (!this.db.anonPolicies[this.table]?.includes(operation)) return false;
+        if (operation === 'insert') return row.session_id != null;
+        if (operation !== 'select' && row.user_id != null) return false;
+        return row.session_id != null && row.session_id === this.sessionId;
+    }
+
+    private project(row: Row): Row {
+        if (this.columns.trim() === '*') return { ...row };
+        return Object.fromEntries(this.columns.split(',').map(c => c.trim()).map(c => [c, row[c]]));
+    }
+
+    private shape(rows: Row[], count?: number): QueryResult {
+        const result = (data: unknown): QueryResult => ({ data, error: null, ...(this.counting ? { count } : {}) });
+        if (!this.expect) return result(rows);
+        if (rows.length === 1) return result(rows[0]);
+        if (rows.length === 0 && this.expect === 'maybeSingle') return result(null);
+        return { data: null, error: { message: `JSON object requested, ${rows.length} rows returned` } };
+    }
+
+    private execute(): QueryResult {
+        const table = this.db.tables[this.table] ??= [];
+        const matches = (row: Row) => this.filters.every(filter => filter(row));
+
+        if (this.operation === 'insert') {
+            const user = this.user();
+            const inserted = (Array.isArray(this.values) ? this.values : [this.values]).map(values => ({
+                id: crypto.randomUUID(),
+                user_id: user?.id ?? null,
+                session_id: null,
+                created_at: nextTimestamp(),
+                ...values,
+            }));
+            if (!inserted.every(row => this.allowed(row, 'insert'))) {
+                return { data: null, error: { message: `new row violates row-level security policy for table "${this.table}"` } };
+            }
+            table.push(...inserted);
+            return this.shape(this.returning ? inserted.map(row => this.project(row)) : []);
+        }
+
+        // Rows hidden by RLS are silently skipped, exactly like PostgREST
+        const visible = table.filter(row => this.allowed(row, this.operation) && matches(row));
+
+        if (this.operation === 'update') {
+            visible.forEach(row => Object.assign(row, this.values));
+            return this.shape(this.returning ? visible.map(row => this.project(row)) : [], visible.length);
+        }
+        if (this.operation === 'delete') {
+            this.db.tables[this.table] = table.filter(row => !visible.includes(row));
+            return this.shape(this.returning ? visible.map(row => this.project(row)) : [], visible.length);
+        }
+
+        let rows = [...visible];
+        if (this.ordering) {
+            const { column, ascending } = this.ordering;
+            rows.sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+        }
+        if (this.window) rows = rows.slice(this.window.from, this.window.to + 1);
+        return this.shape(rows.map(row => this.project(row)));
+    }
+}
+
+export interface MockSupabase {
+    client: SupabaseClient;
+    /** Magic links requested through signInWithOtp */
+    sentMagicLinks: { email: string; redirectTo?: string }[];
+    /** Complete a magic-link sign-in, as if the user clicked the emailed link */
+    completeSignIn(user: MockUser): void;
+}
+
+/**
+ * A client bound to one browser session: the x-session-id header it sends and
+ * the user signed in on it.
+ */
+export const createMockSupabaseClient = (db: MockDatabase, headers: Record<string, string> = {}): MockSupabase => {
+    let user: MockUser | null = null;
+    const listeners = new Set<(event: string, session: { user: MockUser } | null) => void>();
+    const session = () => (user ? { user } : null);
+    const emit = (event: string) => listeners.forEach(listener => listener(event, session()));
+    const sentMagicLinks: MockSupabase['sentMagicLinks'] = [];
+
+    const client = {
+        from: (table: string) => new MockQuery(db, table, headers['x-session-id'], () => user),
+        rpc: async (name: string, params: { p_session_id?: string }) => {
+            if (name !== 'claim_session_rows') return { data: null, error: { message: `Unknown function ${name}` } };
+            if (!user) return { data: null, error: { message: 'claim_session_rows requires an authenticated user' } };
+            if (!params.p_session_id) return { data: 0, error: null };
+            let claimed = 0;
+            for (const table of ['analysis_history', 'ai_configurations']) {
+                for (const row of db.tables[table] ?? []) {
+                    if (row.session_id === params.p_session_id && row.user_id == null) {
+                        Object.assign(row, { user_id: user.id, session_id: null });
+                        claimed++;
+                    }
+                }
+            }
+            return { data: claimed, error: null };
+        },
+        auth: {
+            getSession: async () => ({ data: { session: session() }, error: null }),
+            signInWithOtp: async ({ email, options }: { email: string; options?: { emailRedirectTo?: string } }) => {
+                sentMagicLinks.push({ email, redirectTo: options?.emailRedirectTo });
+                return { data: {}, error: null };
+            },
+            signOut: async () => {
+                user = null;
+                emit('SIGNED_OUT');
+                return { error: null };
+            },
+            onAuthStateChange: (listener: (event: string, session: { user: MockUser } | null) => void) => {
+                listeners.add(listener);
+                setTimeout(() => listener('INITIAL_SESSION', session()), 0);
+                return { data: { subscription: { unsubscribe: () => listeners.delete(listener) } } };
+            },
+        },
+    };
+
+    return {
+        client: client as unknown as SupabaseClient,
+        sentMagicLinks,
+        completeSignIn: (signedIn) => {
+            user = signedIn;
+            emit('SIGNED_IN');
+        },
+    };
+};
+
+/**
+ * The project and this browser's client, shared within a test file by the
+ * vi.mock factory for services/supabaseClient and the tests themselves.
+ */
+export const mockDb = createMockDatabase();
+export const mockBrowser = createMockSupabaseClient(mockDb, getSessionHeaders());
+
+export const resetMockSupabase = async (): Promise<void> => {
+    Object.assign(mockDb, createMockDatabase());
+    await mockBrowser.client.auth.signOut();
+    mockBrowser.sentMagicLinks.length = 0;
+};
@@ -0,0 +1,22 @@
+/**
+ * Stand-in for the Search Console API that replays a recorded searchAnalytics
+ * response: the rows are served a page at a time, by the request's startRow and
+ * rowLimit, the way the live API pages through them. Pass `fetch` as the
+ * fetcher's fetchImpl; `requests` holds the bodies it received.
+ */
+export const createRecordedGscApi = (recording: { rows?: unknown[] } | { error: { code: number } }) => {
+    const requests: { startRow: number; rowLimit: number; [key: string]: unknown }[] = [];
+
+    const fetch = async (_url: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const body = JSON.parse(String(init?.body));
+        requests.push(body);
+        if ('error' in recording) {
+            return new Response(JSON.stringify(recording), { status: recording.error.code });
+        }
+        const rows = (recording.rows ?? []).slice(body.startRow, body.startRow + body.rowLimit);
+        // Like the live API, a page past the end has no rows property at all
+        return new Response(JSON.stringify(rows.length > 0 ? { rows, responseAggregationType: 'byPage' } : { responseAggregationType: 'byPage' }), { status: 200 });
+    };
+
+    return { fetch: fetch as typeof globalThis.fetch, requests };
+};
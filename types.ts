@@ -15,6 +15,7 @@ export interface TechnicalAudit {
   actionItems: {
     item: string;
     priority: 'high' | 'medium' | 'low';
+    evidence?: string[]; // Measured facts, set on items generated from crawl checks
   }[];
 }
 
@@ -46,7 +47,11 @@ export interface Node {
   id: string; // URL
   label: string;
   type: 'pillar' | 'cluster' | 'orphan';
-  cluster?: string; // clusterName for linking
+  cluster?: string; // clusterName for linking; the path section for crawled graphs
+  // Measured from the crawled pages' links (absent on older, AI-generated graphs)
+  depth?: number | null; // Clicks from the homepage; null when it can't be reached
+  inlinks?: number; // Crawled pages linking here
+  pageRank?: number; // Internal PageRank, scaled so the average page scores 1
 }
 export interface Edge {
   source: string; // source URL
@@ -54,7 +59,8 @@ export interface Edge {
 }
 export interface GraphData {
   nodes: Node[];
-  edges: Edge[];
+  edges: Edge[]; // For crawled graphs: the link each page is first reached through from the homepage
+  linkCount?: number; // Distinct internal links between crawled pages
 }
 
 export interface LocalBusinessAudit {
@@ -78,6 +84,57 @@ export interface ZeroToOneInitiative {
   effort: number;
 }
 
+// Deterministic, computed from GSC page x query rows (not AI-generated)
+export interface CannibalizingPage {
+  url: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+  impressionShare: number; // 0-1 share of the query's impressions across our pages
+}
+
+export interface CannibalizationIssue {
+  query: string;
+  totalImpressions: number;
+  totalClicks: number;
+  primaryUrl: string;
+  pages: CannibalizingPage[]; // Sorted with the primary URL first
+  severity: 'high' | 'medium' | 'low';
+}
+
+export interface CannibalizationConsolidation {
+  from: string;
+  to: string;
+  action: 'redirect' | 'merge';
+  sharedQueries: string[];
+  reason: string;
+}
+
+export interface CannibalizationReport {
+  issues: CannibalizationIssue[];
+  consolidations: CannibalizationConsolidation[];
+  queriesAnalyzed: number;
+}
+
+// Queries ranking just off page one, from GSC page x query rows
+export interface StrikingDistanceEntry {
+  page: string;
+  query: string;
+  position: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  inTitle: boolean | null; // null when the page could not be fetched
+  inH1: boolean | null;
+}
+
+export interface StrikingDistanceReport {
+  entries: StrikingDistanceEntry[];
+  minPosition: number;
+  maxPosition: number;
+  pagesChecked: number;
+}
+
 export interface SitewideAnalysis {
   strategicRoadmap: StrategicRoadmapData;
   technicalHealth: TechnicalAudit;
@@ -86,10 +143,22 @@ export interface SitewideAnalysis {
   siteArchitectureGraph: GraphData; 
   localBusinessAudit: LocalBusinessAudit;
   zeroToOneInitiatives: ZeroToOneInitiative[]; // New for v11
+  keywordCannibalization?: CannibalizationReport; // Present when GSC is connected
+  sitemapValidation?: SitemapValidationReport;
+  strikingDistance?: StrikingDistanceReport; // Present when GSC is connected
+  structuredData?: StructuredDataReport;
+  hreflang?: HreflangReport; // Present when the site declares hreflang alternates
 }
 
 
 // UNIFIED ACTION TYPE FOR V9
+export interface SearchPerformanceMetrics {
+    clicks: number;
+    impressions: number;
+    ctr: number;
+    position: number;
+}
+
 export interface PagePerformance {
     summary: string;
     recommendations: {
@@ -97,19 +166,14 @@ export interface PagePerformance {
         action: string;
         rationale: string;
     }[];
-    metrics: {
-        clicks: number;
-        impressions: number;
-        ctr: number;
-        position: number;
-    },
+    metrics: SearchPerformanceMetrics,
     dataSource?: 'Google Search Console' | 'simulated';
 }
 
 export interface PageAction {
   url: string;
   priority: 'high' | 'medium' | 'low';
-  source: 'analysis' | 'keyword' | 'decay';
+  source: 'analysis' | 'keyword' | 'decay' | 'ctr' | 'similarity' | 'indexability';
   rewriteDetails?: {
     reason: string;
     evidence: string;
@@ -119,6 +183,8 @@ export interface PageAction {
     strategicGoal?: string; // New for v11 (The Strategy Thread)
   };
   optimizationTasks?: OptimizationTask[];
+  performance?: SearchPerformanceMetrics; // Real GSC metrics, attached when GSC is connected
+  projectedClickGain?: number; // Clicks recoverable by fixing an underperforming snippet
 }
 
 
@@ -207,6 +273,39 @@ export interface ExecutiveSummaryRedirect {
   reason: string;
 }
 
+export type RedirectIssueType =
+  | 'invalid_url'
+  | 'self_redirect'
+  | 'duplicate'
+  | 'conflict'
+  | 'chain'
+  | 'loop'
+  | 'target_redirects'
+  | 'target_error';
+
+export interface RedirectIssue {
+  type: RedirectIssueType;
+  severity: 'error' | 'warning'; // Errors keep the redirect out of the exports
+  from: string;
+  message: string;
+}
+
+// A redirect that is safe to ship: normalized, with chains collapsed to the final target
+export interface RedirectRule {
+  from: string;
+  to: string;
+  reason: string;
+  collapsed: string[]; // Intermediate URLs skipped by pointing straight at the final target
+}
+
+export interface RedirectMap {
+  rules: RedirectRule[];
+  issues: RedirectIssue[];
+  targetsChecked: number; // Targets whose live status was checked
+}
+
+export type RedirectExportFormat = 'htaccess' | 'nginx' | 'netlify' | 'vercel' | 'cloudflare' | 'wordpress';
+
 export interface ExecutiveSummary {
   summaryTitle: string;
   summaryIntroduction: string;
@@ -214,6 +313,7 @@ export interface ExecutiveSummary {
   optimizations: ExecutiveSummaryAction[];
   newContent: ExecutiveSummaryContent[];
   redirects: ExecutiveSummaryRedirect[];
+  redirectMap?: RedirectMap; // Validated against the live site; older reports only have the raw pairs
 }
 // End of 80/20 Types
 
@@ -273,6 +373,269 @@ export interface CrawlProgress {
     pagesFound?: number;
     lastUrlFound?: string;
     totalUrls?: number;
+    urlsBySitemap?: Record<string, number>; // Child sitemap URL -> URLs it contributed
+}
+
+// User-tunable limits for the sitemap crawl
+export interface CrawlSettings {
+    maxUrls: number; // Size of the stratified sample handed to ranking
+    concurrency: number; // Sitemaps fetched in parallel
+    timeoutSeconds: number; // Hard limit for the whole crawl
+}
+
+// One page URL from the crawl, with the metadata its sitemap declared
+export interface SitemapEntry {
+    url: string;
+    lastmod?: string;
+    changefreq?: string;
+    priority?: number;
+    source: string; // The (child) sitemap the URL was listed in
+    images: SitemapImage[];
+    videos: SitemapVideo[];
+    news?: SitemapNews;
+    alternates: HreflangAlternate[];
+}
+
+// What the crawl saw for each (child) sitemap file, for validation
+export interface SitemapFile {
+    url: string;
+    bytes: number; // Uncompressed size
+    format?: SitemapFormat;
+    error?: { kind: 'unreachable' | 'parse'; message: string };
+    childSitemaps: string[];
+    urls: ParsedSitemapUrl[];
+}
+
+export interface SitemapCrawlResult {
+    entries: SitemapEntry[];
+    files: SitemapFile[];
+    unvisitedSitemaps: number; // Child sitemaps skipped once the URL sample was full
+}
+
+export type SitemapIssueType =
+    | 'too_many_urls'
+    | 'too_large'
+    | 'parse_error'
+    | 'unreachable'
+    | 'mixed_protocol'
+    | 'mixed_host'
+    | 'off_property'
+    | 'duplicate_loc'
+    | 'invalid_lastmod';
+
+export interface SitemapIssue {
+    type: SitemapIssueType;
+    severity: 'error' | 'warning';
+    message: string;
+    sitemap?: string; // Set for issues confined to one file
+    count: number;
+    examples: string[];
+}
+
+export interface SitemapValidationReport {
+    rootSitemap: string;
+    sitemapsChecked: number;
+    sitemapsNotChecked: number;
+    urlsChecked: number;
+    issues: SitemapIssue[];
+}
+
+export type SitemapFormat = 'sitemapindex' | 'urlset' | 'rss' | 'atom' | 'text';
+
+// A language/region version of a page, from a sitemap or a <link rel="alternate" hreflang>
+export interface HreflangAlternate {
+    lang: string;
+    href: string;
+}
+
+// Google's image, video and news sitemap extensions
+export interface SitemapImage {
+    loc: string;
+    title?: string;
+    caption?: string;
+}
+
+export interface SitemapVideo {
+    title: string;
+    description: string;
+    thumbnailLoc: string;
+    contentLoc?: string;
+    playerLoc?: string;
+    duration?: number; // Seconds
+    publicationDate?: string;
+}
+
+export interface SitemapNews {
+    title: string;
+    publicationDate: string;
+    publicationName: string;
+    language: string;
+}
+
+export interface ParsedSitemapUrl {
+    loc: string;
+    lastmod?: string;
+    changefreq?: string;
+    priority?: number;
+    images: SitemapImage[];
+    videos: SitemapVideo[];
+    news?: SitemapNews;
+    alternates: HreflangAlternate[]; // xhtml:link rel="alternate" hreflang annotations
+}
+
+export type ParsedSitemap =
+    | { format: 'sitemapindex'; sitemaps: string[] }
+    | { format: Exclude<SitemapFormat, 'sitemapindex'>; urls: ParsedSitemapUrl[] };
+
+// Where a candidate sitemap URL was found during discovery
+export type SitemapSource = 'gsc' | 'robots' | 'probe';
+
+export interface SitemapCandidate {
+    url: string;
+    sources: SitemapSource[];
+    isIndex?: boolean;
+    lastSubmitted?: string; // Only known for sitemaps listed in GSC
+}
+
+// How the app reaches third-party sites from the browser
+export type FetchTransportKind = 'direct' | 'custom_proxy' | 'bundled_proxy';
+
+export interface FetchTransportConfig {
+    kind: FetchTransportKind;
+    // custom_proxy: URL template, "{url}" is replaced with the encoded target (appended if absent).
+    // bundled_proxy: origin of a standalone proxy; empty uses the dev server's built-in one.
+    proxyUrl?: string;
+}
+
+// HTTP status check of one sitemap URL
+export interface RedirectHop {
+    url: string;
+    status: number | null; // null when the browser hid the redirect status
+    location: string | null;
+}
+
+export interface UrlStatusResult {
+    url: string;
+    finalUrl: string;
+    status: number | null; // Final status; null when the URL could not be reached
+    redirectChain: RedirectHop[];
+    hops: number;
+    xRobotsTag: string | null; // Only visible when the server exposes the header to CORS
+    observedVia: 'direct' | 'proxy';
+    chainObserved: boolean; // False when the transport only reports the final response
+    error?: string;
+}
+
+export type Indexability = 'indexable' | 'non_indexable' | 'conflicting';
+
+// What decided a URL's indexability
+export type IndexabilityCode =
+    | 'indexable'
+    | 'no_canonical'
+    | 'error_status'
+    | 'redirect'
+    | 'noindex'
+    | 'noindex_in_sitemap'
+    | 'noindex_with_canonical'
+    | 'canonicalized'
+    | 'canonical_to_redirect'
+    | 'canonical_to_error'
+    | 'canonical_to_noindex'
+    | 'canonical_chain'
+    | 'parameterized_without_canonical';
+
+export interface IndexabilityResult {
+    url: string;
+    indexability: Indexability;
+    code: IndexabilityCode;
+    reason: string;
+    evidence: string[]; // The observed signals behind the verdict
+    canonical: string | null; // As declared on the page
+}
+
+// Real on-page signals extracted from a page's live HTML
+export interface PageSnapshot {
+    url: string;
+    status: number | null; // null when the page could not be fetched at all
+    fetchError?: string;
+    title: string;
+    metaDescription: string;
+    headings: {
+        h1: string[];
+        h2: string[];
+        h3: string[];
+    };
+    canonical: string | null;
+    metaRobots: string | null;
+    hreflang: HreflangAlternate[];
+    wordCount: number;
+    mainText: string; // Visible text of the main content area, without site navigation and footers
+    internalLinks: string[]; // Absolute, de-duplicated, without fragments
+    externalLinks: string[];
+    structuredData: StructuredDataItem[]; // JSON-LD, Microdata and RDFa, in document order by format
+    jsonLdErrors: string[]; // JSON-LD blocks that could not be parsed
+    sitemapLastmod?: string; // From the page's sitemap entry, not the page itself
+    fetchedAt: string;
+}
+
+export type HreflangIssueType =
+    | 'invalid_code'
+    | 'missing_return_link'
+    | 'missing_x_default'
+    | 'non_200_target'
+    | 'non_canonical_target';
+
+export interface HreflangIssue {
+    type: HreflangIssueType;
+    severity: 'error' | 'warning';
+    message: string;
+    count: number;
+    examples: string[];
+}
+
+export interface HreflangReport {
+    urlsWithHreflang: number; // URLs declaring alternates in the sitemap or on the page
+    clusters: number; // Groups of URLs linked by hreflang, i.e. one piece of content in all its versions
+    languages: string[]; // hreflang values in use, most common first
+    sources: { sitemap: number; page: number }; // Annotations found in each place
+    targetsChecked: number; // Alternate URLs whose HTTP status is known
+    issues: HreflangIssue[];
+}
+
+// Structured data found on a page, normalized to JSON-LD's shape whatever the syntax:
+// properties keyed by schema.org name, nested items as objects with an "@type"
+export interface StructuredDataItem {
+    format: 'json-ld' | 'microdata' | 'rdfa';
+    types: string[]; // schema.org type names without the vocabulary, e.g. "Product"
+    properties: Record<string, unknown>;
+}
+
+// Google rich-result types the validator knows the requirements of
+export type RichResultType = 'FAQPage' | 'HowTo' | 'Product' | 'Article' | 'BreadcrumbList' | 'LocalBusiness' | 'Organization';
+
+export interface StructuredDataIssue {
+    severity: 'error' | 'warning'; // Errors make the page ineligible for the rich result; warnings limit it
+    richResult: RichResultType | null; // null for markup that could not be read at all
+    message: string;
+}
+
+export interface SchemaOpportunity {
+    type: RichResultType;
+    reason: string;
+}
+
+export interface PageStructuredData {
+    url: string;
+    found: { type: string; format: StructuredDataItem['format'] }[];
+    issues: StructuredDataIssue[];
+    opportunities: SchemaOpportunity[];
+}
+
+export interface StructuredDataReport {
+    pagesChecked: number;
+    pagesWithMarkup: number;
+    typeCounts: Record<string, number>; // Pages carrying each type
+    pages: PageStructuredData[]; // Only pages with markup, issues or opportunities
 }
 
 // For the Live AI Log Streamer
@@ -297,6 +660,40 @@ export interface GscTokenResponse {
     [key: string]: any;
 }
 
+// Why GSC data can't be used right now; surfaced instead of silently simulating
+export type GscUnavailableReason = 'not_connected' | 'expired' | 'refresh_failed';
+
+export type GscSessionState =
+    | { status: 'connected'; token: GscTokenResponse; expiresAt: number; sites: GscSite[]; property: string | null }
+    | { status: 'unavailable'; reason: GscUnavailableReason; property: string | null };
+
+export type GscDimension = 'page' | 'query' | 'device' | 'country' | 'date';
+export type GscSearchType = 'web' | 'image' | 'video' | 'news' | 'discover' | 'googleNews';
+
+export interface GscDateRange {
+    startDate: string; // YYYY-MM-DD
+    endDate: string;   // YYYY-MM-DD
+}
+
+// One searchAnalytics row with its dimension keys unpacked into named fields
+export interface GscAnalyticsRow extends SearchPerformanceMetrics {
+    page?: string;
+    query?: string;
+    device?: string;
+    country?: string;
+    date?: string;
+}
+
+export interface GscAnalyticsDataset {
+    siteUrl: string;
+    dimensions: GscDimension[];
+    dateRange: GscDateRange;
+    searchType: GscSearchType;
+    rows: GscAnalyticsRow[];
+    truncated: boolean; // true when rowLimit was reached before the API ran out of rows
+    fetchedAt: string;
+}
+
 // For Multi-Provider AI Configuration
 export type AiProvider = 'gemini' | 'openai' | 'anthropic' | 'openrouter';
 
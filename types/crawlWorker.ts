@@ -0,0 +1,18 @@
+import type { CrawlProgress, CrawlSettings, FetchTransportConfig, SitemapCrawlResult, SitemapEntry } from '../types';
+
+export interface SampledCrawl {
+  crawl: SitemapCrawlResult;
+  rankedSample: SitemapEntry[]; // Stratified sample of crawl.entries, most important first
+}
+
+// Main thread -> crawl worker
+export type CrawlWorkerRequest =
+  | { type: 'start'; sitemapUrl: string; settings: CrawlSettings; transport: FetchTransportConfig }
+  | { type: 'cancel' };
+
+// Crawl worker -> main thread. Exactly one of 'result', 'cancelled' or 'error' ends a crawl.
+export type CrawlWorkerResponse =
+  | { type: 'progress'; progress: CrawlProgress }
+  | ({ type: 'result' } & SampledCrawl)
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
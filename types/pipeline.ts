@@ -42,6 +42,21 @@ export const PIPELINE_STAGE_DEFINITIONS: Omit<PipelineStage, 'status' | 'progres
     name: 'URL Prioritization',
     description: 'Scoring and ranking URLs by strategic SEO value'
   },
+  {
+    id: 'status',
+    name: 'HTTP Status Check',
+    description: 'Requesting each prioritized URL to record status codes, redirect chains and X-Robots-Tag headers'
+  },
+  {
+    id: 'pages',
+    name: 'On-Page Signal Extraction',
+    description: 'Fetching each prioritized page and extracting titles, headings, canonicals and more'
+  },
+  {
+    id: 'gsc',
+    name: 'Search Console Ground Truth',
+    description: 'Fetching real page metrics and mining decay, cannibalization and quick wins'
+  },
   {
     id: 'competitor',
     name: 'Competitor Intelligence',
@@ -0,0 +1,27 @@
+import type { TechnicalAudit, UrlStatusResult } from '../types';
+
+type ActionItem = TechnicalAudit['actionItems'][number];
+
+/**
+ * Put action items measured from the site ahead of the AI's technical
+ * recommendations. When the measurements contradict a "good" rating
+ * (`contradictsGood`), the audit is downgraded to "needs_improvement".
+ */
+export const applyFindings = (audit: TechnicalAudit, items: ActionItem[], contradictsGood: boolean): TechnicalAudit => {
+    if (items.length === 0) return audit;
+    return {
+        ...audit,
+        status: contradictsGood && audit.status === 'good' ? 'needs_improvement' : audit.status,
+        actionItems: [...items, ...audit.actionItems],
+    };
+};
+
+/**
+ * How a checked URL responded, for evidence lines: "returns 404",
+ * "redirects to https://… (200)" or why it could not be reached.
+ */
+export const describeStatus = (result: UrlStatusResult): string => {
+    if (result.status === null) return result.error || 'could not be reached';
+    if (result.hops > 0) return `redirects to ${result.finalUrl} (${result.status})`;
+    return `returns ${result.status}`;
+};
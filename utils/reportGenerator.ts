@@ -44,6 +44,13 @@ const generateExecutiveSummaryMarkdown = (summary: ExecutiveSummary): string =>
             markdown += `  - **Reason:** ${item.reason}\n`;
         });
         markdown += `\n`;
+        if (summary.redirectMap && summary.redirectMap.issues.length > 0) {
+            markdown += `**Redirect check:**\n`;
+            summary.redirectMap.issues.forEach(issue => {
+                markdown += `- ${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.from}: ${issue.message}\n`;
+            });
+            markdown += `\n`;
+        }
     }
     return markdown;
 };
@@ -108,6 +115,9 @@ const generateSitewideAuditMarkdown = (audit: SitewideAnalysis): string => {
             markdown += `**Recommended Actions:**\n`;
             audit.technicalHealth.actionItems.forEach(item => {
                 markdown += `- **${item.item}** (Priority: ${item.priority})\n`;
+                item.evidence?.forEach(line => {
+                    markdown += `  - ${line}\n`;
+                });
             });
             markdown += `\n`;
         }
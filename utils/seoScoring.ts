@@ -1,3 +1,4 @@
+import type { SitemapEntry } from '../types';
 
 const KEYWORD_BOOSTS: { [key: string]: number } = {
     // Commercial keywords
@@ -77,14 +78,42 @@ const calculateScore = (url: string): number => {
     }
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adjusts a URL's score with what its sitemap declared: recently modified pages
+ * are actively maintained, and the site owner's <priority> is a (weak) hint.
+ */
+const sitemapSignalScore = (entry: SitemapEntry, now: number): number => {
+    let score = 0;
+
+    const lastmod = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+    if (!isNaN(lastmod)) {
+        const ageDays = (now - lastmod) / DAY_MS;
+        if (ageDays <= 90) score += 10;
+        else if (ageDays > 730) score -= 10;
+    }
+
+    if (entry.priority !== undefined) {
+        score += Math.round((entry.priority - 0.5) * 20);
+    }
+
+    return score;
+};
+
 /**
- * Ranks an array of URLs based on their estimated SEO importance.
- * @param urls An array of URL strings.
- * @returns A new array of URL strings sorted from most to least important.
+ * Ranks sitemap entries based on their estimated SEO importance.
+ * @param entries Entries from the sitemap crawl.
+ * @returns A new array of entries sorted from most to least important.
  */
-export const rankUrls = (urls: string[]): string[] => {
-    return [...urls]
-        .map(url => ({ url, score: calculateScore(url) }))
+export const rankUrls = (entries: SitemapEntry[]): SitemapEntry[] => {
+    const now = Date.now();
+    return [...entries]
+        .map(entry => {
+            const score = calculateScore(entry.url);
+            // Excluded URLs (files, unparseable) stay excluded regardless of sitemap hints
+            return { entry, score: score > 0 ? Math.max(0, score + sitemapSignalScore(entry, now)) : 0 };
+        })
         .sort((a, b) => b.score - a.score)
-        .map(item => item.url);
+        .map(item => item.entry);
 };
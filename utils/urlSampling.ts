@@ -0,0 +1,62 @@
+import type { SitemapEntry } from '../types';
+import { isHomepage, pathSection } from './urlUtils';
+
+/**
+ * Picks `count` entries spread evenly across a stratum, so the sample reflects
+ * the whole sitemap rather than just its first lines.
+ */
+const spreadPick = (entries: SitemapEntry[], count: number): SitemapEntry[] => {
+    if (count >= entries.length) return entries;
+    const step = entries.length / count;
+    return Array.from({ length: count }, (_, i) => entries[Math.floor(i * step)]);
+};
+
+/**
+ * Draws a representative sample of at most `size` entries. Entries are grouped
+ * by the child sitemap that listed them and by path section, and every group
+ * gets a share proportional to its size (at least one entry while the budget
+ * allows), so a few huge product sitemaps can't crowd out the rest of the site.
+ * The homepage is always kept. Deterministic: the same crawl gives the same sample.
+ */
+export const stratifiedSample = (entries: SitemapEntry[], size: number): SitemapEntry[] => {
+    if (entries.length <= size) return entries;
+
+    const homepages = entries.filter(entry => isHomepage(entry.url)).slice(0, size);
+    const budget = size - homepages.length;
+    const strata = new Map<string, SitemapEntry[]>();
+    for (const entry of entries) {
+        if (homepages.includes(entry)) continue;
+        const key = `${entry.source}\n${pathSection(entry.url)}`;
+        const stratum = strata.get(key);
+        if (stratum) stratum.push(entry);
+        else strata.set(key, [entry]);
+    }
+
+    // Largest strata first, so they win ties and get the single slots when there are more strata than budget
+    const groups = [...strata.values()].sort((a, b) => b.length - a.length);
+    const quotas = groups.map(() => 0);
+
+    if (groups.length >= budget) {
+        for (let i = 0; i < budget; i++) quotas[i] = 1;
+    } else {
+        // One entry per stratum, the rest split by size (largest remainder method)
+        const remaining = budget - groups.length;
+        const weight = groups.reduce((sum, group) => sum + group.length - 1, 0);
+        const shares = groups.map(group => weight > 0 ? (group.length - 1) * remaining / weight : 0);
+        shares.forEach((share, i) => { quotas[i] = 1 + Math.floor(share); });
+
+        let leftover = budget - quotas.reduce((sum, quota) => sum + quota, 0);
+        const byRemainder = shares
+            .map((share, i) => ({ i, remainder: share - Math.floor(share) }))
+            .sort((a, b) => b.remainder - a.remainder);
+        for (const { i } of byRemainder) {
+            if (leftover === 0) break;
+            if (quotas[i] < groups[i].length) {
+                quotas[i]++;
+                leftover--;
+            }
+        }
+    }
+
+    return [...homepages, ...groups.flatMap((group, i) => spreadPick(group, quotas[i]))];
+};
@@ -0,0 +1,35 @@
+/**
+ * Normalize an http(s) URL for exact comparison: resolved against `base` and
+ * without its fragment, but otherwise untouched, since canonicals, hreflang and
+ * redirects must name the URL exactly. Null for anything else.
+ */
+export const normalizeUrl = (url: string, base?: string): string | null => {
+    try {
+        const u = new URL(url, base);
+        if (u.protocol !== 'http:' && u.protocol !== 'https:') return null;
+        u.hash = '';
+        return u.toString();
+    } catch {
+        return null;
+    }
+};
+
+export const isHomepage = (url: string): boolean => {
+    try {
+        return new URL(url).pathname === '/';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * The section a URL belongs to: its first path segment, lowercased, or "/" for top-level pages.
+ */
+export const pathSection = (url: string): string => {
+    try {
+        const segments = new URL(url).pathname.split('/').filter(Boolean);
+        return segments.length > 1 ? segments[0].toLowerCase() : '/';
+    } catch {
+        return '/';
+    }
+};
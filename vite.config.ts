@@ -1,19 +1,35 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
+import { createFetchProxyMiddleware } from './server/fetchProxy.mjs';
+
+// Serves the self-hosted fetch proxy (server/fetchProxy.mjs) from the dev and preview servers
+const fetchProxyPlugin = (): Plugin => ({
+  name: 'orchestrator-fetch-proxy',
+  configureServer(server) {
+    server.middlewares.use(createFetchProxyMiddleware());
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createFetchProxyMiddleware());
+  },
+});
 
 export default defineConfig({
   server: {
     port: 3000,
     host: '0.0.0.0',
   },
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), fetchProxyPlugin()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),
     }
   },
+  test: {
+    setupFiles: ['./test/setup.ts'],
+  },
   build: {
     rollupOptions: {
       output: {